@@ -1,11 +1,11 @@
 import {
   ApiQuery,
+  ApiQueryError,
   APIQueryExecutor,
-  ErrorType,
   FunctionDefinition,
+  functionValidator,
   ValidationResult,
 } from "@datasqrl/acorn-node";
-import Ajv from "ajv";
 import axios from "axios";
 
 /**
@@ -13,7 +13,6 @@ import axios from "axios";
  * and adds custom authentication headers
  */
 export class CustomApiQueryExecutor implements APIQueryExecutor {
-  private ajv: Ajv;
   public enableValidation: boolean;
 
   constructor(
@@ -21,8 +20,7 @@ export class CustomApiQueryExecutor implements APIQueryExecutor {
     private apiKey: string,
     options: { enableValidation?: boolean } = {},
   ) {
-    this.enableValidation = options.enableValidation || false;
-    this.ajv = new Ajv();
+    this.enableValidation = options.enableValidation ?? true;
   }
 
   /**
@@ -36,29 +34,8 @@ export class CustomApiQueryExecutor implements APIQueryExecutor {
       return ValidationResult.VALID;
     }
 
-    try {
-      const isValidArgs = this.ajv.compile(functionDef.parameters);
-
-      if (args && !isValidArgs(args)) {
-        return new ValidationResult(
-          ErrorType.INVALID_ARGUMENT,
-          isValidArgs.errors
-            ?.map(
-              (e) =>
-                e.instancePath.split("/").filter(Boolean).join(".") +
-                " " +
-                e.message,
-            )
-            .join("\n"),
-        );
-      }
-      return ValidationResult.VALID;
-    } catch (e) {
-      return new ValidationResult(
-        ErrorType.INVALID_JSON,
-        e instanceof Error ? e.message : undefined,
-      );
-    }
+    // shared validator caches compiled schemas of function definitions
+    return functionValidator.validate(functionDef, args);
   }
 
   /**
@@ -87,18 +64,21 @@ export class CustomApiQueryExecutor implements APIQueryExecutor {
       );
 
       // Check for GraphQL errors
-      if (response.data.errors) {
-        throw new Error(
-          `GraphQL errors: ${JSON.stringify(response.data.errors)}`,
-        );
+      if (response.data.errors?.length) {
+        throw ApiQueryError.fromGraphQLResponse(response.data, response.status);
       }
 
       return JSON.stringify(response.data.data);
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        throw new Error(
-          `API request failed: ${error.message}, Status: ${error.response?.status}`,
-        );
+        // Structured errors are rendered into a message for the LLM by `executeTools`
+        throw error.response
+          ? ApiQueryError.fromHttpResponse(
+              error.response.status,
+              error.response.statusText,
+              error.response.data,
+            )
+          : ApiQueryError.fromNetworkError(error);
       }
       throw error;
     }
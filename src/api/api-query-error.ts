@@ -0,0 +1,219 @@
+export const enum ApiQueryErrorType {
+  // API responded with a non-2xx HTTP status
+  HTTP = "HTTP",
+  // API responded with a GraphQL `errors` array (possibly with partial data)
+  GRAPHQL = "GRAPHQL",
+  // API could not be reached or the response could not be read
+  NETWORK = "NETWORK",
+  // API did not respond within configured timeout
+  TIMEOUT = "TIMEOUT",
+}
+
+/**
+ * Single entry of the GraphQL `errors` array as described in the GraphQL spec
+ */
+export interface GraphQLErrorInfo {
+  message: string;
+  path?: ReadonlyArray<string | number>;
+  locations?: ReadonlyArray<{ line: number; column: number }>;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Body of a GraphQL response as described in the GraphQL spec
+ */
+export interface GraphQLResponse {
+  data?: Record<string, unknown> | null;
+  errors?: ReadonlyArray<GraphQLErrorInfo>;
+  extensions?: Record<string, unknown>;
+}
+
+export interface ApiQueryErrorOptions {
+  httpStatus?: number;
+  errors?: ReadonlyArray<GraphQLErrorInfo>;
+  data?: Record<string, unknown> | null;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+// HTTP statuses that are usually caused by temporary API unavailability
+const RETRYABLE_HTTP_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+// `extensions.code` values that are usually caused by temporary API unavailability
+const RETRYABLE_ERROR_CODES = [
+  "SERVICE_UNAVAILABLE",
+  "TIMEOUT",
+  "RATE_LIMITED",
+  "TOO_MANY_REQUESTS",
+];
+
+/**
+ * Error thrown by `APIQueryExecutor` when the API call failed
+ * or the API responded with GraphQL errors.
+ *
+ * It keeps all details returned by the API (HTTP status, GraphQL errors, partial data)
+ * so callers can either handle it as a typed exception or render it into a message for the LLM.
+ */
+export class ApiQueryError extends Error {
+  public readonly httpStatus?: number;
+  public readonly errors: ReadonlyArray<GraphQLErrorInfo>;
+  public readonly data?: Record<string, unknown> | null;
+  public readonly retryable: boolean;
+  public readonly cause?: unknown;
+
+  constructor(
+    public readonly type: ApiQueryErrorType,
+    message: string,
+    options: ApiQueryErrorOptions = {},
+  ) {
+    super(message);
+    this.name = "ApiQueryError";
+
+    this.httpStatus = options.httpStatus;
+    this.errors = options.errors ?? [];
+    this.data = options.data;
+    this.cause = options.cause;
+    this.retryable =
+      options.retryable ??
+      ApiQueryError.isRetryable(type, options.httpStatus, this.errors);
+  }
+
+  /**
+   * Checks if the failed call can be retried with a reasonable chance of success
+   */
+  static isRetryable(
+    type: ApiQueryErrorType,
+    httpStatus?: number,
+    errors: ReadonlyArray<GraphQLErrorInfo> = [],
+  ) {
+    switch (type) {
+      case ApiQueryErrorType.NETWORK:
+      case ApiQueryErrorType.TIMEOUT:
+        return true;
+      case ApiQueryErrorType.HTTP:
+        return (
+          httpStatus != null && RETRYABLE_HTTP_STATUSES.includes(httpStatus)
+        );
+      case ApiQueryErrorType.GRAPHQL:
+        return (
+          errors.length > 0 &&
+          errors.every((e) =>
+            RETRYABLE_ERROR_CODES.includes(String(e.extensions?.code)),
+          )
+        );
+    }
+  }
+
+  /**
+   * Creates an error for a non-2xx HTTP response.
+   * GraphQL errors are extracted from the body when the API provided them.
+   */
+  static fromHttpResponse(
+    httpStatus: number,
+    statusText?: string,
+    body?: GraphQLResponse | null,
+  ) {
+    return new ApiQueryError(
+      ApiQueryErrorType.HTTP,
+      `API responded with HTTP ${httpStatus}${statusText ? ` ${statusText}` : ""}`,
+      {
+        httpStatus,
+        errors: Array.isArray(body?.errors) ? body?.errors : undefined,
+        data: body?.data,
+      },
+    );
+  }
+
+  /**
+   * Creates an error for a GraphQL response that contains an `errors` array
+   */
+  static fromGraphQLResponse(response: GraphQLResponse, httpStatus?: number) {
+    const errors = response.errors ?? [];
+    return new ApiQueryError(
+      ApiQueryErrorType.GRAPHQL,
+      errors.map((e) => e.message).join("\n") || "GraphQL call failed",
+      {
+        httpStatus,
+        errors,
+        data: response.data,
+      },
+    );
+  }
+
+  /**
+   * Creates an error for a call that did not reach the API
+   */
+  static fromNetworkError(cause: unknown) {
+    return new ApiQueryError(
+      ApiQueryErrorType.NETWORK,
+      `Failed to reach the API: ${cause instanceof Error ? cause.message : cause}`,
+      { cause },
+    );
+  }
+
+  /**
+   * Partial data was returned by the API alongside the errors
+   */
+  hasPartialData() {
+    return this.data != null && Object.keys(this.data).length > 0;
+  }
+
+  /**
+   * Renders the error into a message that can be returned to the LLM as a tool result
+   */
+  toToolMessage(): string {
+    const lines = [`The API call failed: ${this.message}`];
+    if (this.httpStatus != null) {
+      lines.push(`HTTP status: ${this.httpStatus}`);
+    }
+    for (const error of this.errors) {
+      const path = error.path?.length ? ` (at ${error.path.join(".")})` : "";
+      const code = error.extensions?.code ? ` [${error.extensions.code}]` : "";
+      lines.push(`- ${error.message}${path}${code}`);
+    }
+    if (this.hasPartialData()) {
+      lines.push(`Partial data: ${JSON.stringify(this.data)}`);
+    }
+    lines.push(
+      this.retryable
+        ? "This error is temporary, the call can be retried."
+        : "Retrying the same call will not help.",
+    );
+    return lines.join("\n");
+  }
+
+  toJSON() {
+    return {
+      type: this.type,
+      message: this.message,
+      httpStatus: this.httpStatus,
+      errors: this.errors,
+      data: this.data,
+      retryable: this.retryable,
+    };
+  }
+}
+
+/**
+ * Checks if the value looks like a body of the GraphQL response
+ */
+export const isGraphQLResponse = (value: unknown): value is GraphQLResponse =>
+  value != null &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  ("data" in value || "errors" in value);
+
+/**
+ * Returns `data` of the GraphQL response or throws `ApiQueryError`
+ * when the response contains errors
+ * @param response parsed body of the GraphQL response
+ * @param httpStatus HTTP status of the response, if there was one
+ */
+export const getGraphQLResponseData = (
+  response: GraphQLResponse,
+  httpStatus?: number,
+) => {
+  if (response.errors?.length) {
+    throw ApiQueryError.fromGraphQLResponse(response, httpStatus);
+  }
+  return response.data ?? null;
+};
@@ -0,0 +1,74 @@
+import { ApiQueryError, ApiQueryErrorType } from "./api-query-error";
+
+/**
+ * Options of a single `APIQueryExecutor.executeQuery` call
+ */
+export interface ApiQueryExecutionOptions {
+  // Maximum duration of the call in milliseconds. Applied to every call of the executor separately
+  timeout?: number;
+  // Signal used to cancel the call (e.g. when the user cancelled the chat)
+  signal?: AbortSignal;
+  // Request metadata (e.g. run or tool call ids) available to executors
+  metadata?: Record<string, unknown>;
+  // Context of the call (e.g. LangGraph thread or authenticated user) available to executors
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Combines `signal` and `timeout` of the execution options into a single `AbortSignal`.
+ * `clear` must be called when the call is finished to release the timer and listeners.
+ * @param options execution options of the call
+ * @returns combined signal, `clear` function and timeout check
+ */
+export const createExecutionSignal = (
+  options: ApiQueryExecutionOptions = {},
+) => {
+  const { timeout, signal } = options;
+  if (timeout == null) {
+    return {
+      signal,
+      isTimedOut: () => false,
+      clear: () => {},
+    };
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(createTimeoutError(timeout));
+  }, timeout);
+
+  return {
+    signal: controller.signal,
+    isTimedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};
+
+/**
+ * Creates an error for the call that exceeded configured timeout
+ */
+export const createTimeoutError = (timeout: number) =>
+  new ApiQueryError(
+    ApiQueryErrorType.TIMEOUT,
+    `API did not respond within ${timeout}ms`,
+  );
+
+/**
+ * Throws the abort reason if the signal was aborted
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw signal.reason ?? new Error("The operation was aborted");
+  }
+};
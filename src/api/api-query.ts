@@ -1,3 +1,9 @@
 export interface ApiQuery {
   query: string;
+  // Variables bound to the call context, mapped to the key in `ApiQueryExecutionOptions.context`.
+  // These variables are not exposed to the LLM
+  contextArguments?: Record<string, string>;
+  // Parameters (and variables) mapped to paths of GraphQL arguments, e.g. `filter_id` to `orders(filter.id)`.
+  // Set by `GraphQLSchemaConverter`
+  argumentPaths?: Record<string, string>;
 }
@@ -0,0 +1,77 @@
+/**
+ * Storage used by `CachingApiQueryExecutor`.
+ * Implement this interface to keep cached results in your own backend (e.g. Redis).
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | undefined> | string | undefined;
+  /**
+   * @param key cache key
+   * @param value result of the query
+   * @param ttlMs time in milliseconds after which the value expires
+   */
+  set(key: string, value: string, ttlMs: number): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  clear(): Promise<void> | void;
+}
+
+export interface InMemoryCacheStoreConfig {
+  // Maximum number of stored results. Least recently used results are removed first
+  maxEntries?: number;
+}
+
+interface InMemoryCacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory LRU cache store with per-entry expiration
+ */
+export class InMemoryCacheStore implements CacheStore {
+  public readonly maxEntries: number;
+  // Map keeps insertion order, so the first entry is always the least recently used one
+  protected readonly entries = new Map<string, InMemoryCacheEntry>();
+
+  constructor(config: InMemoryCacheStoreConfig = {}) {
+    this.maxEntries = config.maxEntries ?? 500;
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // move entry to the end as the most recently used one
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttlMs: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const leastRecentlyUsedKey = this.entries.keys().next().value;
+      if (leastRecentlyUsedKey === undefined) {
+        break;
+      }
+      this.entries.delete(leastRecentlyUsedKey);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
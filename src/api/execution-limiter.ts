@@ -0,0 +1,127 @@
+export interface ExecutionLimiterConfig {
+  // Maximum number of tasks running at the same time. Unlimited by default
+  maxConcurrency?: number;
+  // Maximum number of tasks started per `intervalMs` (token bucket). Unlimited by default
+  maxPerInterval?: number;
+  // Interval for `maxPerInterval` in milliseconds. 1 second by default
+  intervalMs?: number;
+}
+
+interface PendingTask {
+  start: () => void;
+  cancel: (reason: unknown) => void;
+}
+
+/**
+ * Limits the number of tasks running concurrently and the rate at which they are started.
+ * The rate is limited with a token bucket: up to `maxPerInterval` tasks can start at once,
+ * after that tokens are refilled evenly during `intervalMs`.
+ * @example
+ * const limiter = new ExecutionLimiter({ maxConcurrency: 4, maxPerInterval: 10 });
+ * const result = await limiter.schedule(() => apiExecutor.executeQuery(query));
+ */
+export class ExecutionLimiter {
+  public readonly maxConcurrency: number;
+  public readonly maxPerInterval: number;
+  public readonly intervalMs: number;
+
+  protected running = 0;
+  protected tokens: number;
+  protected lastRefill = Date.now();
+  protected refillTimer?: ReturnType<typeof setTimeout>;
+  protected readonly queue: PendingTask[] = [];
+
+  constructor(config: ExecutionLimiterConfig = {}) {
+    this.maxConcurrency = config.maxConcurrency ?? Infinity;
+    this.maxPerInterval = config.maxPerInterval ?? Infinity;
+    this.intervalMs = config.intervalMs ?? 1000;
+    this.tokens = this.maxPerInterval;
+  }
+
+  /**
+   * Number of tasks waiting to be started
+   */
+  get pending() {
+    return this.queue.length;
+  }
+
+  /**
+   * Runs the task as soon as limits allow it
+   * @param task function to run
+   * @param signal when aborted before the task started, the task is removed from the queue
+   * @returns result of the task
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.running--;
+      this.drain();
+    }
+  }
+
+  protected acquire(signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(signal.reason);
+      }
+      const onAbort = () => pendingTask.cancel(signal?.reason);
+      const pendingTask: PendingTask = {
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        cancel: (reason) => {
+          const idx = this.queue.indexOf(pendingTask);
+          if (idx !== -1) {
+            this.queue.splice(idx, 1);
+          }
+          reject(reason);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(pendingTask);
+      this.drain();
+    });
+  }
+
+  /**
+   * Starts queued tasks while limits allow it
+   */
+  protected drain() {
+    this.refill();
+    while (this.queue.length > 0 && this.running < this.maxConcurrency) {
+      if (this.tokens < 1) {
+        this.scheduleRefill();
+        return;
+      }
+      this.tokens--;
+      this.running++;
+      this.queue.shift()?.start();
+    }
+  }
+
+  protected refill() {
+    if (this.maxPerInterval === Infinity) {
+      return;
+    }
+    const now = Date.now();
+    const refilledTokens =
+      ((now - this.lastRefill) / this.intervalMs) * this.maxPerInterval;
+    this.tokens = Math.min(this.maxPerInterval, this.tokens + refilledTokens);
+    this.lastRefill = now;
+  }
+
+  protected scheduleRefill() {
+    if (this.refillTimer) {
+      return;
+    }
+    const msPerToken = this.intervalMs / this.maxPerInterval;
+    const delay = Math.ceil((1 - this.tokens) * msPerToken);
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = undefined;
+      this.drain();
+    }, delay);
+  }
+}
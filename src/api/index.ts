@@ -1,2 +1,8 @@
 export * from "./api-query";
+export * from "./api-query-execution-options";
+export * from "./api-query-error";
+export * from "./cache-store";
+export * from "./execution-limiter";
+export * from "./persisted-queries";
+export * from "./query-batching";
 export * from "./query-executors";
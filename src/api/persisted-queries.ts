@@ -0,0 +1,102 @@
+import { Kind, parse } from "graphql/language";
+import { ApiQuery } from "./api-query";
+import { ApiQueryError } from "./api-query-error";
+
+/**
+ * Manifest of persisted operations in the format used by Apollo GraphOS and other gateways.
+ * Register it on the server to allow only known operations.
+ */
+export interface PersistedQueryManifest {
+  format: "apollo-persisted-query-manifest";
+  version: 1;
+  operations: PersistedQueryManifestOperation[];
+}
+
+export interface PersistedQueryManifestOperation {
+  // sha256 hash of the operation body
+  id: string;
+  name: string;
+  type: string;
+  body: string;
+}
+
+export interface PersistedQueriesConfig {
+  // `apq` sends the hash first and falls back to the full query when the API does not know it (Automatic Persisted Queries).
+  // `allowlist` sends only hashes of the operations from the manifest, other operations are rejected before the call
+  mode: "apq" | "allowlist";
+  // Operations allowed in `allowlist` mode
+  manifest?: PersistedQueryManifest;
+}
+
+const PERSISTED_QUERY_NOT_FOUND = "PersistedQueryNotFound";
+const PERSISTED_QUERY_NOT_FOUND_CODE = "PERSISTED_QUERY_NOT_FOUND";
+
+/**
+ * Calculates hex encoded sha256 hash of the text using Web Crypto API
+ */
+export const sha256 = async (text: string) => {
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/**
+ * Creates `extensions` of the request that refers to the persisted query
+ * @param sha256Hash hash of the query
+ */
+export const createPersistedQueryExtensions = (sha256Hash: string) => ({
+  persistedQuery: {
+    version: 1,
+    sha256Hash,
+  },
+});
+
+/**
+ * Checks if the API rejected the request because it does not know the persisted query
+ */
+export const isPersistedQueryNotFoundError = (error: unknown) =>
+  error instanceof ApiQueryError &&
+  error.errors.some(
+    (e) =>
+      e.message === PERSISTED_QUERY_NOT_FOUND ||
+      e.extensions?.code === PERSISTED_QUERY_NOT_FOUND_CODE,
+  );
+
+/**
+ * Creates a manifest of persisted operations from the queries.
+ * Usually used with queries of generated functions: `createPersistedQueryManifest(functions.map((f) => f.apiQuery))`
+ * @param queries queries to include into the manifest
+ * @returns manifest with the hash, name, type and body of every operation
+ */
+export const createPersistedQueryManifest = async (
+  queries: ApiQuery[],
+): Promise<PersistedQueryManifest> => {
+  const operations = await Promise.all(
+    queries.map(async ({ query }) => {
+      const operation = parse(query).definitions.find(
+        (definition) => definition.kind === Kind.OPERATION_DEFINITION,
+      );
+      return {
+        id: await sha256(query),
+        name:
+          operation?.kind === Kind.OPERATION_DEFINITION
+            ? (operation.name?.value ?? "")
+            : "",
+        type:
+          operation?.kind === Kind.OPERATION_DEFINITION
+            ? operation.operation
+            : "query",
+        body: query,
+      };
+    }),
+  );
+  return {
+    format: "apollo-persisted-query-manifest",
+    version: 1,
+    operations,
+  };
+};
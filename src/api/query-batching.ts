@@ -0,0 +1,166 @@
+import {
+  DocumentNode,
+  FieldNode,
+  Kind,
+  OperationDefinitionNode,
+  OperationTypeNode,
+  parse,
+  print,
+  VariableDefinitionNode,
+  visit,
+} from "graphql/language";
+import { GraphQLErrorInfo, GraphQLResponse } from "./api-query-error";
+
+/**
+ * Body of a single GraphQL request
+ */
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+}
+
+const BATCHED_OPERATION_NAME = "BatchedQuery";
+
+/**
+ * Prefix used for field aliases and variables of the request with provided index
+ * @example
+ * // returns b2_
+ * getBatchPrefix(2)
+ */
+export const getBatchPrefix = (idx: number) => `b${idx}_`;
+
+/**
+ * Parses the query and returns its operation if it can be merged with other queries:
+ * a single query operation without fragments or operation directives,
+ * where all root selections are fields.
+ * @returns operation node or `undefined` when query can not be merged
+ */
+export const getMergeableOperation = (
+  query: string,
+): OperationDefinitionNode | undefined => {
+  let document: DocumentNode;
+  try {
+    document = parse(query);
+  } catch {
+    return undefined;
+  }
+  const [operation, ...otherDefinitions] = document.definitions;
+  if (
+    otherDefinitions.length > 0 ||
+    operation?.kind !== Kind.OPERATION_DEFINITION ||
+    operation.operation !== OperationTypeNode.QUERY ||
+    operation.directives?.length
+  ) {
+    return undefined;
+  }
+  const onlyFields = operation.selectionSet.selections.every(
+    (selection) => selection.kind === Kind.FIELD,
+  );
+  return onlyFields ? operation : undefined;
+};
+
+/**
+ * Merges several query requests into a single one.
+ * Root fields of each request are aliased and variables are renamed with `b{idx}_` prefix,
+ * so the response can be split back with `splitBatchedResponse`.
+ * @param requests requests to merge. Each query has to pass `getMergeableOperation` check
+ * @returns request with the merged query and variables
+ * @throws Error if one of the queries can not be merged
+ */
+export const mergeGraphQLRequests = (
+  requests: GraphQLRequest[],
+): GraphQLRequest => {
+  const variableDefinitions: VariableDefinitionNode[] = [];
+  const selections: FieldNode[] = [];
+  const variables: Record<string, unknown> = {};
+
+  requests.forEach((request, idx) => {
+    const operation = getMergeableOperation(request.query);
+    if (!operation) {
+      throw new Error(`Query can not be merged: ${request.query}`);
+    }
+    const prefix = getBatchPrefix(idx);
+    const renamedOperation = visit(operation, {
+      Variable: (node) => ({
+        ...node,
+        name: { ...node.name, value: prefix + node.name.value },
+      }),
+    });
+
+    variableDefinitions.push(...(renamedOperation.variableDefinitions ?? []));
+    for (const selection of renamedOperation.selectionSet.selections) {
+      const field = selection as FieldNode;
+      selections.push({
+        ...field,
+        alias: {
+          kind: Kind.NAME,
+          value: prefix + (field.alias?.value ?? field.name.value),
+        },
+      });
+    }
+    // only declared variables are sent
+    for (const variableDef of operation.variableDefinitions ?? []) {
+      const name = variableDef.variable.name.value;
+      if (request.variables && name in request.variables) {
+        variables[prefix + name] = request.variables[name];
+      }
+    }
+  });
+
+  const document: DocumentNode = {
+    kind: Kind.DOCUMENT,
+    definitions: [
+      {
+        kind: Kind.OPERATION_DEFINITION,
+        operation: OperationTypeNode.QUERY,
+        name: { kind: Kind.NAME, value: BATCHED_OPERATION_NAME },
+        variableDefinitions,
+        selectionSet: { kind: Kind.SELECTION_SET, selections },
+      },
+    ],
+  };
+  return { query: print(document), variables };
+};
+
+/**
+ * Splits response of the query created by `mergeGraphQLRequests` into responses of the original requests.
+ * Errors without a path are added to every response.
+ * @param response response of the merged query
+ * @param count number of merged requests
+ * @returns list of responses in the same order as merged requests
+ */
+export const splitBatchedResponse = (
+  response: GraphQLResponse,
+  count: number,
+): GraphQLResponse[] => {
+  return Array.from({ length: count }, (_, idx) => {
+    const prefix = getBatchPrefix(idx);
+
+    const data = response.data
+      ? Object.entries(response.data)
+          .filter(([key]) => key.startsWith(prefix))
+          .reduce<Record<string, unknown>>((acc, [key, value]) => {
+            acc[key.substring(prefix.length)] = value;
+            return acc;
+          }, {})
+      : response.data;
+
+    const errors = (response.errors ?? []).reduce<GraphQLErrorInfo[]>(
+      (acc, error) => {
+        const [root, ...path] = error.path ?? [];
+        if (root == null) {
+          acc.push(error);
+        } else if (typeof root === "string" && root.startsWith(prefix)) {
+          acc.push({
+            ...error,
+            path: [root.substring(prefix.length), ...path],
+          });
+        }
+        return acc;
+      },
+      [],
+    );
+
+    return errors.length > 0 ? { data, errors } : { data };
+  });
+};
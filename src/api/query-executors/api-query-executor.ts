@@ -1,6 +1,13 @@
 import { FunctionDefinition } from "../../tool/function-definition";
 import { ValidationResult } from "../../tool/validation-result";
 import { ApiQuery } from "../api-query";
+import { ApiQueryExecutionOptions } from "../api-query-execution-options";
+import { ApiQueryError } from "../api-query-error";
+
+export interface ApiQueryBatchItem<TApiQuery extends ApiQuery = ApiQuery> {
+  query: TApiQuery;
+  args?: Record<string, unknown>;
+}
 
 export interface APIQueryExecutor<TApiQuery extends ApiQuery = ApiQuery> {
   enableValidation: boolean;
@@ -22,11 +29,27 @@ export interface APIQueryExecutor<TApiQuery extends ApiQuery = ApiQuery> {
    *
    * @param query the query to execute
    * @param args the arguments for the query
+   * @param options timeout, cancellation signal and metadata of the call
    * @returns The result of the query as a string
-   * @throws Error if the connection to the API failed or the query could not be executed
+   * @throws ApiQueryError if the connection to the API failed or the API responded with errors
+   * @throws Error if the query could not be executed
    */
   executeQuery(
     query: TApiQuery,
     args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
   ): Promise<string>;
+
+  /**
+   * Optional. Executes several queries in a single request to the API (e.g. GraphQL array batching).
+   *
+   * @param items queries with their arguments
+   * @param options timeout, cancellation signal and metadata of the call
+   * @returns results in the same order as items. Queries that failed are returned as ApiQueryError
+   * @throws ApiQueryError if the whole request failed
+   */
+  executeBatch?(
+    items: ApiQueryBatchItem<TApiQuery>[],
+    options?: ApiQueryExecutionOptions,
+  ): Promise<Array<string | ApiQueryError>>;
 }
@@ -0,0 +1,213 @@
+import { isMutation } from "../../utils";
+import { ApiQuery } from "../api-query";
+import { ApiQueryExecutionOptions } from "../api-query-execution-options";
+import { ApiQueryError, ApiQueryErrorType } from "../api-query-error";
+import {
+  getMergeableOperation,
+  mergeGraphQLRequests,
+  splitBatchedResponse,
+} from "../query-batching";
+import { APIQueryExecutor } from "./api-query-executor";
+import { DelegatingApiQueryExecutor } from "./delegating-api-query-executor";
+
+export interface BatchingApiQueryExecutorConfig {
+  // `merge` combines queries into a single operation using field aliases.
+  // `array` sends a list of operations (GraphQL array batching), the wrapped executor must implement `executeBatch`
+  mode?: "merge" | "array";
+  // Time in milliseconds the calls are collected before the batch is sent
+  batchWindowMs?: number;
+  // Maximum number of queries in a single batch
+  maxBatchSize?: number;
+}
+
+interface PendingQuery<TApiQuery extends ApiQuery> {
+  query: TApiQuery;
+  args?: Record<string, unknown>;
+  options?: ApiQueryExecutionOptions;
+  resolve: (result: string) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Executor that collects queries executed at the same time (e.g. parallel tool calls in `APIFunction.executeTools`)
+ * and sends them to the wrapped executor in a single request.
+ * Mutations and queries that can not be batched are executed immediately.
+ * Only calls with the same execution options (signal, timeout, context and metadata) are batched together.
+ * @example
+ * const apiExecutor = new BatchingApiQueryExecutor(
+ *   new FetchApiQueryExecutor({ graphqlUri }),
+ * );
+ */
+export class BatchingApiQueryExecutor<
+  TApiQuery extends ApiQuery = ApiQuery,
+> extends DelegatingApiQueryExecutor<TApiQuery> {
+  public readonly mode: "merge" | "array";
+  protected readonly batchWindowMs: number;
+  protected readonly maxBatchSize: number;
+  protected queue: PendingQuery<TApiQuery>[] = [];
+  protected timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    delegate: APIQueryExecutor<TApiQuery>,
+    config: BatchingApiQueryExecutorConfig = {},
+  ) {
+    super(delegate);
+    this.mode = config.mode ?? "merge";
+    this.batchWindowMs = config.batchWindowMs ?? 0;
+    this.maxBatchSize = config.maxBatchSize ?? 10;
+
+    if (this.mode === "array" && !delegate.executeBatch) {
+      throw new Error(
+        `Array batching is not supported by API executor [${delegate}]`,
+      );
+    }
+  }
+
+  executeQuery(
+    query: TApiQuery,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    if (!this.isBatchable(query)) {
+      return this.delegate.executeQuery(query, args, options);
+    }
+    return new Promise((resolve, reject) => {
+      this.queue.push({ query, args, options, resolve, reject });
+      this.timer ??= setTimeout(() => this.flush(), this.batchWindowMs);
+    });
+  }
+
+  protected isBatchable(query: TApiQuery) {
+    return this.mode === "merge"
+      ? getMergeableOperation(query.query) != null
+      : !isMutation(query.query);
+  }
+
+  /**
+   * Sends all collected queries
+   */
+  protected flush() {
+    const queue = this.queue;
+    this.queue = [];
+    this.timer = undefined;
+
+    for (const batch of this.createBatches(queue)) {
+      if (batch.length === 1) {
+        this.executeSingle(batch[0]);
+      } else if (this.mode === "merge") {
+        this.executeMerged(batch);
+      } else {
+        this.executeArray(batch);
+      }
+    }
+  }
+
+  /**
+   * Groups queries with the same execution options into batches of `maxBatchSize`
+   */
+  protected createBatches(queue: PendingQuery<TApiQuery>[]) {
+    const batches: PendingQuery<TApiQuery>[][] = [];
+    for (const pendingQuery of queue) {
+      const batch = batches.find(
+        (b) =>
+          b.length < this.maxBatchSize &&
+          haveSameOptions(b[0].options, pendingQuery.options),
+      );
+      if (batch) {
+        batch.push(pendingQuery);
+      } else {
+        batches.push([pendingQuery]);
+      }
+    }
+    return batches;
+  }
+
+  protected async executeSingle({
+    query,
+    args,
+    options,
+    resolve,
+    reject,
+  }: PendingQuery<TApiQuery>) {
+    try {
+      resolve(await this.delegate.executeQuery(query, args, options));
+    } catch (error) {
+      reject(error);
+    }
+  }
+
+  protected async executeMerged(batch: PendingQuery<TApiQuery>[]) {
+    try {
+      const { query, variables } = mergeGraphQLRequests(
+        batch.map((p) => ({ query: p.query.query, variables: p.args })),
+      );
+      const result = await this.delegate.executeQuery(
+        { ...batch[0].query, query, contextArguments: undefined },
+        variables,
+        batch[0].options,
+      );
+      const responses = splitBatchedResponse(
+        { data: JSON.parse(result) },
+        batch.length,
+      );
+      batch.forEach((p, idx) => p.resolve(JSON.stringify(responses[idx].data)));
+    } catch (error) {
+      if (
+        !(error instanceof ApiQueryError) ||
+        error.type !== ApiQueryErrorType.GRAPHQL
+      ) {
+        batch.forEach((p) => p.reject(error));
+        return;
+      }
+      // errors are assigned to the queries by the path
+      const responses = splitBatchedResponse(error, batch.length);
+      batch.forEach((p, idx) => {
+        const response = responses[idx];
+        if (response.errors?.length) {
+          p.reject(
+            ApiQueryError.fromGraphQLResponse(response, error.httpStatus),
+          );
+        } else if (response.data == null) {
+          // an error on a non-null root field of another query nulls the whole `data`
+          p.reject(error);
+        } else {
+          p.resolve(JSON.stringify(response.data));
+        }
+      });
+    }
+  }
+
+  protected async executeArray(batch: PendingQuery<TApiQuery>[]) {
+    try {
+      // supported executors are checked in the constructor
+      if (!this.delegate.executeBatch) {
+        throw new Error(
+          `Array batching is not supported by API executor [${this.delegate}]`,
+        );
+      }
+      const results = await this.delegate.executeBatch(
+        batch.map((p) => ({ query: p.query, args: p.args })),
+        batch[0].options,
+      );
+      batch.forEach((p, idx) => {
+        const result = results[idx];
+        if (typeof result === "string") {
+          p.resolve(result);
+        } else {
+          p.reject(result);
+        }
+      });
+    } catch (error) {
+      batch.forEach((p) => p.reject(error));
+    }
+  }
+}
+
+const haveSameOptions = (
+  a: ApiQueryExecutionOptions = {},
+  b: ApiQueryExecutionOptions = {},
+) =>
+  a.signal === b.signal &&
+  a.timeout === b.timeout &&
+  a.context === b.context &&
+  a.metadata === b.metadata;
@@ -0,0 +1,83 @@
+import { isMutation, stableStringify } from "../../utils";
+import { ApiQuery } from "../api-query";
+import { ApiQueryExecutionOptions } from "../api-query-execution-options";
+import { CacheStore, InMemoryCacheStore } from "../cache-store";
+import { APIQueryExecutor } from "./api-query-executor";
+import { DelegatingApiQueryExecutor } from "./delegating-api-query-executor";
+
+export type CacheKeyProvider<TApiQuery extends ApiQuery = ApiQuery> = (
+  query: TApiQuery,
+  args: Record<string, unknown> | undefined,
+  options: ApiQueryExecutionOptions | undefined,
+) => string;
+
+export interface CachingApiQueryExecutorConfig<
+  TApiQuery extends ApiQuery = ApiQuery,
+> {
+  // Where results are stored. In-memory LRU store is used by default
+  store?: CacheStore;
+  // Maximum number of results in the default in-memory store
+  maxEntries?: number;
+  // Time in milliseconds results are cached for. Can be set per operation, `0` disables caching
+  ttlMs?: number | ((query: TApiQuery) => number);
+  // Builds the cache key. By default it is the query text with normalized variables.
+  // Include the user from `options.context` when API responses depend on the caller
+  cacheKey?: CacheKeyProvider<TApiQuery>;
+}
+
+/**
+ * Builds the cache key from the query text and variables.
+ * Variables are normalized, so the order of keys does not matter.
+ */
+export const defaultCacheKey: CacheKeyProvider = (query, args) =>
+  `${query.query}\n${stableStringify(args ?? {})}`;
+
+/**
+ * Executor that caches results of read-only queries of the wrapped executor.
+ * Mutations are never cached and failed calls are not stored.
+ * @example
+ * const apiExecutor = new CachingApiQueryExecutor(
+ *   new FetchApiQueryExecutor({ graphqlUri }),
+ *   { ttlMs: 30000, maxEntries: 100 },
+ * );
+ */
+export class CachingApiQueryExecutor<
+  TApiQuery extends ApiQuery = ApiQuery,
+> extends DelegatingApiQueryExecutor<TApiQuery> {
+  public readonly store: CacheStore;
+  protected readonly ttlMs: number | ((query: TApiQuery) => number);
+  protected readonly cacheKey: CacheKeyProvider<TApiQuery>;
+
+  constructor(
+    delegate: APIQueryExecutor<TApiQuery>,
+    config: CachingApiQueryExecutorConfig<TApiQuery> = {},
+  ) {
+    super(delegate);
+    this.store =
+      config.store ?? new InMemoryCacheStore({ maxEntries: config.maxEntries });
+    this.ttlMs = config.ttlMs ?? 60000;
+    this.cacheKey = config.cacheKey ?? defaultCacheKey;
+  }
+
+  async executeQuery(
+    query: TApiQuery,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    const ttlMs =
+      typeof this.ttlMs === "function" ? this.ttlMs(query) : this.ttlMs;
+    if (ttlMs <= 0 || isMutation(query.query)) {
+      return this.delegate.executeQuery(query, args, options);
+    }
+
+    const key = this.cacheKey(query, args, options);
+    const cachedResult = await this.store.get(key);
+    if (cachedResult !== undefined) {
+      return cachedResult;
+    }
+
+    const result = await this.delegate.executeQuery(query, args, options);
+    await this.store.set(key, result, ttlMs);
+    return result;
+  }
+}
@@ -0,0 +1,49 @@
+import { FunctionDefinition, ValidationResult } from "../../tool";
+import { ApiQuery } from "../api-query";
+import { ApiQueryError } from "../api-query-error";
+import { ApiQueryExecutionOptions } from "../api-query-execution-options";
+import { ApiQueryBatchItem, APIQueryExecutor } from "./api-query-executor";
+
+/**
+ * Base class for executors that wrap another `APIQueryExecutor` and add behavior on top of it.
+ * All calls are forwarded to the wrapped executor by default.
+ * `executeBatch` is only available when the wrapped executor supports it.
+ */
+export abstract class DelegatingApiQueryExecutor<
+  TApiQuery extends ApiQuery = ApiQuery,
+> implements APIQueryExecutor<TApiQuery>
+{
+  executeBatch?: (
+    items: ApiQueryBatchItem<TApiQuery>[],
+    options?: ApiQueryExecutionOptions,
+  ) => Promise<Array<string | ApiQueryError>>;
+
+  constructor(public readonly delegate: APIQueryExecutor<TApiQuery>) {
+    if (delegate.executeBatch) {
+      this.executeBatch = delegate.executeBatch.bind(delegate);
+    }
+  }
+
+  get enableValidation() {
+    return this.delegate.enableValidation;
+  }
+
+  set enableValidation(value: boolean) {
+    this.delegate.enableValidation = value;
+  }
+
+  validate(
+    functionDef: FunctionDefinition,
+    args?: Record<string, unknown>,
+  ): ValidationResult {
+    return this.delegate.validate(functionDef, args);
+  }
+
+  executeQuery(
+    query: TApiQuery,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    return this.delegate.executeQuery(query, args, options);
+  }
+}
@@ -1,50 +1,217 @@
-import Ajv from "ajv";
-import { ErrorType, FunctionDefinition, ValidationResult } from "../../tool";
+import {
+  FunctionDefinition,
+  functionValidator,
+  FunctionValidator,
+  ValidationResult,
+} from "../../tool";
 import { ApiQuery } from "../api-query";
-import { APIQueryExecutor } from "./api-query-executor";
+import {
+  ApiQueryExecutionOptions,
+  createExecutionSignal,
+} from "../api-query-execution-options";
+import {
+  ApiQueryError,
+  getGraphQLResponseData,
+  isGraphQLResponse,
+} from "../api-query-error";
+import {
+  createPersistedQueryExtensions,
+  isPersistedQueryNotFoundError,
+  PersistedQueriesConfig,
+  sha256,
+} from "../persisted-queries";
+import { ApiQueryBatchItem, APIQueryExecutor } from "./api-query-executor";
+
+export interface HeadersProviderContext {
+  // Context of the call, e.g. LangGraph thread or authenticated user
+  context?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+  // `true` when the API rejected previous headers with HTTP 401 and credentials should be refreshed
+  refresh: boolean;
+}
+
+/**
+ * Function that provides headers for every request.
+ * Can be used to attach short-lived tokens or per-user credentials.
+ */
+export type HeadersProvider = (
+  context: HeadersProviderContext,
+) => Record<string, string> | Promise<Record<string, string>>;
 
 export interface FetchApiQueryExecutorConfig {
   graphqlUri: string;
+  // `true` by default
   enableValidation?: boolean;
-  headers?: Record<string, string>;
+  // Shared `functionValidator` by default
+  validator?: FunctionValidator;
+  headers?: Record<string, string> | HeadersProvider;
+  // When `headers` is a provider, HTTP 401 responses are retried once with refreshed headers. `true` by default
+  refreshHeadersOnUnauthorized?: boolean;
+  // Send hashes of persisted queries instead of the full query text
+  persistedQueries?: PersistedQueriesConfig;
 }
 
 /**
- * Default executor that always says function definition is valid
- * and returns "void" as execution result
+ * Executor that sends queries to a GraphQL API over HTTP using `fetch`
  */
 export class FetchApiQueryExecutor<TApiQuery extends ApiQuery = ApiQuery>
   implements APIQueryExecutor<TApiQuery>
 {
-  protected ajv: Ajv;
+  protected readonly validator: FunctionValidator;
   protected readonly graphqlUri: string;
   public enableValidation: boolean;
-  protected readonly headers?: Record<string, string>;
+  protected readonly headers?: Record<string, string> | HeadersProvider;
+  protected readonly refreshHeadersOnUnauthorized: boolean;
+  protected readonly persistedQueries?: PersistedQueriesConfig;
+  protected readonly allowedQueryHashes?: Set<string>;
+  protected readonly queryHashes = new Map<string, Promise<string>>();
 
   constructor(config: FetchApiQueryExecutorConfig) {
     this.graphqlUri = config.graphqlUri;
-    this.enableValidation = config.enableValidation || false;
+    this.enableValidation = config.enableValidation ?? true;
+    this.validator = config.validator ?? functionValidator;
     this.headers = config.headers;
+    this.refreshHeadersOnUnauthorized =
+      config.refreshHeadersOnUnauthorized ?? true;
+    this.persistedQueries = config.persistedQueries;
 
-    this.ajv = new Ajv();
+    if (this.persistedQueries?.mode === "allowlist") {
+      if (!this.persistedQueries.manifest) {
+        throw new Error(
+          "Persisted query manifest is required in allowlist mode",
+        );
+      }
+      this.allowedQueryHashes = new Set(
+        this.persistedQueries.manifest.operations.map((o) => o.id),
+      );
+    }
   }
 
+  /**
+   * Sends the GraphQL request and returns `data` of the response
+   * @throws ApiQueryError if the API is unreachable, responded with a non-2xx status
+   * or returned GraphQL errors (partial data is kept in the error)
+   */
   protected async fetcher(
     body: Record<string, unknown>,
-  ): Promise<Record<string, unknown>> {
-    const res = await fetch(this.graphqlUri, {
-      method: "POST",
-      body: JSON.stringify(body),
-      headers: {
-        "Content-Type": "application/json",
-        ...this.headers,
-      },
-    });
+    options?: ApiQueryExecutionOptions,
+  ): Promise<Record<string, unknown> | null> {
+    const { status, responseBody } = await this.request(body, options);
+    if (!isGraphQLResponse(responseBody)) {
+      throw ApiQueryError.fromNetworkError(
+        new Error("Response does not contain a valid GraphQL body"),
+      );
+    }
+    return getGraphQLResponseData(responseBody, status);
+  }
+
+  /**
+   * Sends the request to the GraphQL API and returns parsed body of the successful response
+   * @throws ApiQueryError if the API is unreachable or responded with a non-2xx status
+   */
+  protected async request(
+    body: unknown,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<{ status: number; responseBody: unknown }> {
+    const { signal, isTimedOut, clear } = createExecutionSignal(options);
+    let res: Response;
+    let responseBody: unknown;
+    try {
+      res = await this.post(body, await this.getHeaders(options), signal);
+      if (
+        res.status === 401 &&
+        this.refreshHeadersOnUnauthorized &&
+        typeof this.headers === "function"
+      ) {
+        // credentials may have expired, retry once with refreshed headers
+        await res.body?.cancel();
+        res = await this.post(
+          body,
+          await this.getHeaders(options, true),
+          signal,
+        );
+      }
+      responseBody = await this.readResponseBody(res);
+    } catch (e) {
+      if (signal?.aborted) {
+        // timeout error or the reason provided by the caller
+        throw isTimedOut() ? signal.reason : (options?.signal?.reason ?? e);
+      }
+      throw e;
+    } finally {
+      clear();
+    }
+
     if (!res.ok) {
-      throw new Error("Failed to execute GraphQL call");
+      throw ApiQueryError.fromHttpResponse(
+        res.status,
+        res.statusText,
+        isGraphQLResponse(responseBody) ? responseBody : null,
+      );
+    }
+    return { status: res.status, responseBody };
+  }
+
+  /**
+   * Sends POST request to the GraphQL API
+   * @throws ApiQueryError if the API could not be reached
+   */
+  protected async post(
+    body: unknown,
+    headers: Record<string, string>,
+    signal?: AbortSignal,
+  ) {
+    try {
+      return await fetch(this.graphqlUri, {
+        method: "POST",
+        body: JSON.stringify(body),
+        headers: {
+          "Content-Type": "application/json",
+          ...headers,
+        },
+        signal,
+      });
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      throw ApiQueryError.fromNetworkError(e);
+    }
+  }
+
+  /**
+   * Resolves headers for the request, calling the headers provider when it is configured
+   * @param options execution options of the call
+   * @param refresh request fresh credentials from the provider
+   */
+  protected async getHeaders(
+    options?: ApiQueryExecutionOptions,
+    refresh = false,
+  ): Promise<Record<string, string>> {
+    if (typeof this.headers !== "function") {
+      return this.headers ?? {};
+    }
+    return this.headers({
+      context: options?.context,
+      metadata: options?.metadata,
+      refresh,
+    });
+  }
+
+  /**
+   * Parses the response body as JSON.
+   * Returns `null` when the body is not a JSON (e.g. HTML error page of a proxy).
+   */
+  protected async readResponseBody(res: Response): Promise<unknown> {
+    try {
+      return await res.json();
+    } catch (e) {
+      // aborted calls should not be treated as invalid body
+      if (e instanceof Error && e.name === "AbortError") {
+        throw e;
+      }
+      return null;
     }
-    const { data } = await res.json();
-    return data;
   }
 
   validate(
@@ -54,40 +221,102 @@ export class FetchApiQueryExecutor<TApiQuery extends ApiQuery = ApiQuery>
     if (!this.enableValidation) {
       return ValidationResult.VALID;
     }
+    return this.validator.validate(functionDef, args);
+  }
 
+  async executeQuery(
+    query: TApiQuery,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    const body = await this.createRequestBody(query.query, args);
     try {
-      const isValidArgs = this.ajv.compile(functionDef.parameters);
-
-      if (args && !isValidArgs(args)) {
-        return new ValidationResult(
-          ErrorType.INVALID_ARGUMENT,
-          isValidArgs.errors
-            ?.map(
-              (e) =>
-                e.instancePath.split("/").filter(Boolean).join(".") +
-                " " +
-                e.message,
-            )
-            .join("\n"),
-        );
-      }
-      return ValidationResult.VALID;
+      const data = await this.fetcher(body, options);
+      return JSON.stringify(data);
     } catch (e) {
-      return new ValidationResult(
-        ErrorType.INVALID_JSON,
-        e instanceof Error ? e.message : undefined,
-      );
+      if (
+        this.persistedQueries?.mode !== "apq" ||
+        !isPersistedQueryNotFoundError(e)
+      ) {
+        throw e;
+      }
+      // the API does not know the hash yet, send the full query to register it
+      const data = await this.fetcher({ ...body, query: query.query }, options);
+      return JSON.stringify(data);
     }
   }
 
-  async executeQuery(
-    query: TApiQuery,
+  /**
+   * Creates the body of the request.
+   * When persisted queries are enabled, the hash of the query is sent instead of the query text.
+   * @throws Error if the query is not in the persisted query manifest in `allowlist` mode
+   */
+  protected async createRequestBody(
+    query: string,
     args?: Record<string, unknown>,
-  ): Promise<string> {
-    const data = await this.fetcher({
-      query: query.query,
+  ): Promise<Record<string, unknown>> {
+    if (!this.persistedQueries) {
+      return { query, variables: args };
+    }
+
+    const hash = await this.getQueryHash(query);
+    if (this.allowedQueryHashes && !this.allowedQueryHashes.has(hash)) {
+      throw new Error(
+        `Operation is not in the persisted query manifest: ${query}`,
+      );
+    }
+    return {
       variables: args,
+      extensions: createPersistedQueryExtensions(hash),
+    };
+  }
+
+  protected getQueryHash(query: string) {
+    let hash = this.queryHashes.get(query);
+    if (!hash) {
+      hash = sha256(query);
+      this.queryHashes.set(query, hash);
+    }
+    return hash;
+  }
+
+  /**
+   * Sends all queries in a single request using GraphQL array batching.
+   * The API has to support batched requests.
+   */
+  async executeBatch(
+    items: ApiQueryBatchItem<TApiQuery>[],
+    options?: ApiQueryExecutionOptions,
+  ): Promise<Array<string | ApiQueryError>> {
+    const body = await Promise.all(
+      items.map(async (item) => {
+        const itemBody = await this.createRequestBody(
+          item.query.query,
+          item.args,
+        );
+        // there is no fallback for batched requests, so the query is always sent in `apq` mode
+        return this.persistedQueries?.mode === "apq"
+          ? { ...itemBody, query: item.query.query }
+          : itemBody;
+      }),
+    );
+    const { status, responseBody } = await this.request(body, options);
+    if (!Array.isArray(responseBody) || responseBody.length !== items.length) {
+      throw ApiQueryError.fromNetworkError(
+        new Error("Response does not contain a valid GraphQL batch body"),
+      );
+    }
+    return responseBody.map((response) => {
+      try {
+        if (!isGraphQLResponse(response)) {
+          throw ApiQueryError.fromNetworkError(
+            new Error("Response does not contain a valid GraphQL body"),
+          );
+        }
+        return JSON.stringify(getGraphQLResponseData(response, status));
+      } catch (e) {
+        return e as ApiQueryError;
+      }
     });
-    return JSON.stringify(data);
   }
 }
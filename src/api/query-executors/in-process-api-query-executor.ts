@@ -0,0 +1,163 @@
+import { DocumentNode, parse } from "graphql/language";
+import { GraphQLSchema } from "graphql/type";
+import { validate as validateDocument } from "graphql/validation";
+import { execute, ExecutionResult } from "graphql/execution";
+import { GraphQLError } from "graphql/error";
+import {
+  ErrorType,
+  FunctionDefinition,
+  functionValidator,
+  FunctionValidator,
+  ValidationResult,
+} from "../../tool";
+import { ApiQuery } from "../api-query";
+import {
+  ApiQueryExecutionOptions,
+  throwIfAborted,
+} from "../api-query-execution-options";
+import { ApiQueryError, getGraphQLResponseData } from "../api-query-error";
+import { APIQueryExecutor } from "./api-query-executor";
+
+export type InProcessContextFactory = (
+  options?: ApiQueryExecutionOptions,
+) => unknown;
+
+export interface InProcessApiQueryExecutorConfig {
+  // Executable schema with resolvers
+  schema: GraphQLSchema;
+  rootValue?: unknown;
+  // Context passed to resolvers. When it is a function, it is called for every query
+  contextValue?: InProcessContextFactory | Record<string, unknown>;
+  // `true` by default
+  enableValidation?: boolean;
+  // Shared `functionValidator` by default
+  validator?: FunctionValidator;
+}
+
+/**
+ * Executor that runs queries against a local executable `GraphQLSchema` using graphql-js,
+ * without any HTTP calls. Queries are validated against the schema before the execution.
+ *
+ * Can be used to test generated functions offline or to embed them into a Node.js service.
+ * @example
+ * const apiExecutor = new InProcessApiQueryExecutor({ schema: makeExecutableSchema(...) });
+ * const functions = convertSchema(printSchema(schema), apiExecutor);
+ */
+export class InProcessApiQueryExecutor<TApiQuery extends ApiQuery = ApiQuery>
+  implements APIQueryExecutor<TApiQuery>
+{
+  protected readonly validator: FunctionValidator;
+  public readonly schema: GraphQLSchema;
+  public enableValidation: boolean;
+  protected readonly rootValue?: unknown;
+  protected readonly contextValue?:
+    | InProcessContextFactory
+    | Record<string, unknown>;
+  // parsed and validated documents by query text
+  protected readonly documents = new Map<string, DocumentNode>();
+
+  constructor(config: InProcessApiQueryExecutorConfig) {
+    this.schema = config.schema;
+    this.rootValue = config.rootValue;
+    this.contextValue = config.contextValue;
+    this.enableValidation = config.enableValidation ?? true;
+    this.validator = config.validator ?? functionValidator;
+  }
+
+  validate(
+    functionDef: FunctionDefinition,
+    args?: Record<string, unknown>,
+  ): ValidationResult {
+    if (!this.enableValidation) {
+      return ValidationResult.VALID;
+    }
+    return this.validator.validate(functionDef, args);
+  }
+
+  /**
+   * Validates the query against the schema
+   * @param query the query to validate
+   * @returns ValidationResult with all schema validation errors as `INVALID_ARGUMENT` error
+   */
+  validateQuery(query: TApiQuery): ValidationResult {
+    try {
+      this.getDocument(query.query);
+      return ValidationResult.VALID;
+    } catch (e) {
+      return new ValidationResult(
+        ErrorType.INVALID_ARGUMENT,
+        e instanceof Error ? e.message : undefined,
+      );
+    }
+  }
+
+  async executeQuery(
+    query: TApiQuery,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    throwIfAborted(options?.signal);
+    const document = this.getDocument(query.query);
+    const result = await this.executeDocument(document, args, options);
+    throwIfAborted(options?.signal);
+
+    const data = getGraphQLResponseData({
+      data: result.data as Record<string, unknown> | null | undefined,
+      errors: result.errors?.map((e) => e.toJSON()),
+    });
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Executes the validated document with graphql-js
+   */
+  protected async executeDocument(
+    document: DocumentNode,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<ExecutionResult> {
+    const contextValue =
+      typeof this.contextValue === "function"
+        ? await this.contextValue(options)
+        : this.contextValue;
+
+    return execute({
+      schema: this.schema,
+      document,
+      rootValue: this.rootValue,
+      contextValue,
+      variableValues: args,
+    });
+  }
+
+  /**
+   * Parses the query and validates it against the schema
+   * @throws ApiQueryError if the query has syntax errors or is invalid for the schema
+   */
+  protected getDocument(query: string): DocumentNode {
+    const cachedDocument = this.documents.get(query);
+    if (cachedDocument) {
+      return cachedDocument;
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(query);
+    } catch (e) {
+      throw toApiQueryError([e as GraphQLError]);
+    }
+    const errors = validateDocument(this.schema, document);
+    if (errors.length > 0) {
+      throw toApiQueryError(errors);
+    }
+
+    this.documents.set(query, document);
+    return document;
+  }
+}
+
+const toApiQueryError = (errors: ReadonlyArray<GraphQLError>) =>
+  ApiQueryError.fromGraphQLResponse({
+    data: null,
+    errors: errors.map((e) => e.toJSON()),
+  });
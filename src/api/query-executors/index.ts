@@ -1,3 +1,10 @@
 export * from "./api-query-executor";
+export * from "./batching-api-query-executor";
+export * from "./caching-api-query-executor";
+export * from "./delegating-api-query-executor";
 export * from "./fetch-api-query-executor";
+export * from "./in-process-api-query-executor";
+export * from "./limiting-api-query-executor";
+export * from "./retry-api-query-executor";
+export * from "./schema-mock-api-query-executor";
 export * from "./void-api-query-executor";
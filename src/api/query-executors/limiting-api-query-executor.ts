@@ -0,0 +1,52 @@
+import { ApiQuery } from "../api-query";
+import { ApiQueryExecutionOptions } from "../api-query-execution-options";
+import { ExecutionLimiter, ExecutionLimiterConfig } from "../execution-limiter";
+import { APIQueryExecutor } from "./api-query-executor";
+import { DelegatingApiQueryExecutor } from "./delegating-api-query-executor";
+
+/**
+ * Executor that limits concurrency and rate of calls to the wrapped executor.
+ * The same `ExecutionLimiter` can be shared between several executors.
+ * @example
+ * const apiExecutor = new LimitingApiQueryExecutor(
+ *   new FetchApiQueryExecutor({ graphqlUri }),
+ *   { maxConcurrency: 4, maxPerInterval: 10, intervalMs: 1000 },
+ * );
+ */
+export class LimitingApiQueryExecutor<
+  TApiQuery extends ApiQuery = ApiQuery,
+> extends DelegatingApiQueryExecutor<TApiQuery> {
+  public readonly limiter: ExecutionLimiter;
+
+  constructor(
+    delegate: APIQueryExecutor<TApiQuery>,
+    limiter: ExecutionLimiter | ExecutionLimiterConfig,
+  ) {
+    super(delegate);
+    this.limiter =
+      limiter instanceof ExecutionLimiter
+        ? limiter
+        : new ExecutionLimiter(limiter);
+
+    // a batch is a single call of the wrapped executor
+    const executeBatch = this.executeBatch;
+    if (executeBatch) {
+      this.executeBatch = (items, options) =>
+        this.limiter.schedule(
+          () => executeBatch(items, options),
+          options?.signal,
+        );
+    }
+  }
+
+  executeQuery(
+    query: TApiQuery,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    return this.limiter.schedule(
+      () => this.delegate.executeQuery(query, args, options),
+      options?.signal,
+    );
+  }
+}
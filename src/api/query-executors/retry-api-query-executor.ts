@@ -0,0 +1,121 @@
+import { isMutation, sleep } from "../../utils";
+import { ApiQuery } from "../api-query";
+import {
+  ApiQueryExecutionOptions,
+  throwIfAborted,
+} from "../api-query-execution-options";
+import { ApiQueryError } from "../api-query-error";
+import { APIQueryExecutor } from "./api-query-executor";
+import { DelegatingApiQueryExecutor } from "./delegating-api-query-executor";
+
+export type RetryPredicate = (error: unknown, attempt: number) => boolean;
+
+export interface RetryPolicy {
+  // Total number of attempts, including the first one. `1` disables retries
+  maxAttempts: number;
+  // Delay before the first retry
+  initialDelayMs: number;
+  // Upper bound for the delay between attempts
+  maxDelayMs: number;
+  // Delay is multiplied by this value after each attempt
+  backoffMultiplier: number;
+  // When enabled, random delay between 0 and calculated backoff is used ("full jitter")
+  jitter: boolean;
+  // Decides if the failed attempt should be retried
+  shouldRetry: RetryPredicate;
+}
+
+export interface RetryApiQueryExecutorConfig extends Partial<RetryPolicy> {
+  // Overrides used for mutations. Mutations are not retried by default because they may not be idempotent
+  mutations?: Partial<RetryPolicy>;
+}
+
+/**
+ * Retries errors that `ApiQueryError` marks as retryable (network errors, HTTP 429/5xx, etc.)
+ */
+export const retryRetryableApiErrors: RetryPredicate = (error) =>
+  error instanceof ApiQueryError && error.retryable;
+
+export const DEFAULT_RETRY_POLICY: Readonly<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 200,
+  maxDelayMs: 5000,
+  backoffMultiplier: 2,
+  jitter: true,
+  shouldRetry: retryRetryableApiErrors,
+};
+
+export const DEFAULT_MUTATION_RETRY_POLICY: Readonly<Partial<RetryPolicy>> = {
+  maxAttempts: 1,
+};
+
+/**
+ * Executor that retries failed calls of the wrapped executor
+ * using exponential backoff.
+ *
+ * Can wrap any `APIQueryExecutor`, including custom ones.
+ * @example
+ * const apiExecutor = new RetryApiQueryExecutor(
+ *   new FetchApiQueryExecutor({ graphqlUri }),
+ *   { maxAttempts: 5 },
+ * );
+ */
+export class RetryApiQueryExecutor<
+  TApiQuery extends ApiQuery = ApiQuery,
+> extends DelegatingApiQueryExecutor<TApiQuery> {
+  public readonly queryPolicy: Readonly<RetryPolicy>;
+  public readonly mutationPolicy: Readonly<RetryPolicy>;
+
+  constructor(
+    delegate: APIQueryExecutor<TApiQuery>,
+    config: RetryApiQueryExecutorConfig = {},
+  ) {
+    super(delegate);
+    const { mutations, ...queryPolicy } = config;
+    this.queryPolicy = { ...DEFAULT_RETRY_POLICY, ...queryPolicy };
+    this.mutationPolicy = {
+      ...this.queryPolicy,
+      ...DEFAULT_MUTATION_RETRY_POLICY,
+      ...mutations,
+    };
+  }
+
+  async executeQuery(
+    query: TApiQuery,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    const policy = isMutation(query.query)
+      ? this.mutationPolicy
+      : this.queryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.delegate.executeQuery(query, args, options);
+      } catch (error) {
+        // cancelled calls are never retried
+        throwIfAborted(options?.signal);
+        if (
+          attempt >= policy.maxAttempts ||
+          !policy.shouldRetry(error, attempt)
+        ) {
+          throw error;
+        }
+        await sleep(this.getDelay(policy, attempt), options?.signal);
+      }
+    }
+  }
+
+  /**
+   * Calculates delay before the next attempt
+   * @param policy retry policy used for the call
+   * @param attempt number of the failed attempt, starting from 1
+   */
+  protected getDelay(policy: RetryPolicy, attempt: number) {
+    const backoff = Math.min(
+      policy.maxDelayMs,
+      policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1),
+    );
+    return policy.jitter ? Math.random() * backoff : backoff;
+  }
+}
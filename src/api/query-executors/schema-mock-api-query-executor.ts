@@ -0,0 +1,248 @@
+import { DocumentNode, print } from "graphql/language";
+import {
+  getNamedType,
+  GraphQLEnumType,
+  GraphQLFieldResolver,
+  GraphQLList,
+  GraphQLOutputType,
+  GraphQLSchema,
+  GraphQLScalarType,
+  isAbstractType,
+  isEnumType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+} from "graphql/type";
+import { buildSchema } from "graphql/utilities";
+import { execute, ExecutionResult } from "graphql/execution";
+import { createRandom, stableStringify } from "../../utils";
+import { ApiQuery } from "../api-query";
+import { InProcessApiQueryExecutor } from "./in-process-api-query-executor";
+
+export interface MockContext {
+  // random number in [0, 1), deterministic when `seed` is configured
+  random: () => number;
+  typeName: string;
+  fieldName: string;
+  parentTypeName: string;
+  args: Record<string, unknown>;
+}
+
+// Returns a value of a scalar or enum type, or a partial object for an object type.
+// Fields missing in the partial object are generated
+export type MockResolver = (context: MockContext) => unknown;
+
+export interface SchemaMockApiQueryExecutorConfig {
+  // SDL passed to `GraphQLSchemaConverter.convertSchema` or a built schema
+  schema: string | GraphQLSchema;
+  // Makes results deterministic: the same query with the same variables always returns the same data
+  seed?: number | string;
+  // Mock resolvers by type name, e.g. `{ DateTime: () => "2024-01-01T00:00:00Z", Product: () => ({ name: "Drill" }) }`
+  mocks?: Record<string, MockResolver>;
+  // Number of items in generated lists. 2 by default
+  listLength?: number;
+  // Probability of `null` for nullable fields. 0 by default
+  nullProbability?: number;
+  enableValidation?: boolean;
+}
+
+const WORDS = [
+  "alpha",
+  "bravo",
+  "delta",
+  "echo",
+  "falcon",
+  "granite",
+  "harbor",
+  "meadow",
+  "orbit",
+  "summit",
+];
+
+/**
+ * Executor that returns type-correct fake data for any query valid for the schema,
+ * so agents can be prototyped before the API exists.
+ * Lists, enums, non-null types, interfaces, unions and common custom scalars
+ * (`DateTime`, `Date`, `Long`, `JSON`, ...) are supported, other scalars get string values.
+ * @example
+ * const apiExecutor = new SchemaMockApiQueryExecutor({ schema: schemaString, seed: 42 });
+ * const functions = convertSchema(schemaString, apiExecutor);
+ */
+export class SchemaMockApiQueryExecutor<
+  TApiQuery extends ApiQuery = ApiQuery,
+> extends InProcessApiQueryExecutor<TApiQuery> {
+  protected readonly seed?: number | string;
+  protected readonly mocks: Record<string, MockResolver>;
+  protected readonly listLength: number;
+  protected readonly nullProbability: number;
+
+  constructor(config: SchemaMockApiQueryExecutorConfig) {
+    super({
+      schema:
+        typeof config.schema === "string"
+          ? buildSchema(config.schema)
+          : config.schema,
+      enableValidation: config.enableValidation,
+    });
+    this.seed = config.seed;
+    this.mocks = config.mocks ?? {};
+    this.listLength = config.listLength ?? 2;
+    this.nullProbability = config.nullProbability ?? 0;
+  }
+
+  protected async executeDocument(
+    document: DocumentNode,
+    args?: Record<string, unknown>,
+  ): Promise<ExecutionResult> {
+    const random =
+      this.seed != null
+        ? createRandom(`${this.seed}${print(document)}${stableStringify(args)}`)
+        : Math.random;
+
+    const fieldResolver: GraphQLFieldResolver<unknown, unknown> = (
+      source,
+      fieldArgs,
+      _context,
+      info,
+    ) => {
+      // values provided by mock resolvers of the parent type
+      if (
+        source != null &&
+        typeof source === "object" &&
+        info.fieldName in source
+      ) {
+        return (source as Record<string, unknown>)[info.fieldName];
+      }
+      return this.mockValue(info.returnType, {
+        random,
+        typeName: getNamedType(info.returnType).name,
+        fieldName: info.fieldName,
+        parentTypeName: info.parentType.name,
+        args: fieldArgs,
+      });
+    };
+
+    return execute({
+      schema: this.schema,
+      document,
+      rootValue: {},
+      variableValues: args,
+      fieldResolver,
+    });
+  }
+
+  protected mockValue(type: GraphQLOutputType, context: MockContext): unknown {
+    if (isNonNullType(type)) {
+      return this.mockNonNullValue(type.ofType, context);
+    }
+    if (context.random() < this.nullProbability) {
+      return null;
+    }
+    return this.mockNonNullValue(type, context);
+  }
+
+  protected mockNonNullValue(
+    nullableType: GraphQLOutputType,
+    context: MockContext,
+  ): unknown {
+    if (isListType(nullableType)) {
+      return this.mockList(nullableType, context);
+    }
+    const type = getNamedType(nullableType);
+
+    const mock = this.mocks[type.name];
+    const value = mock?.({ ...context, typeName: type.name });
+    if (isObjectType(type)) {
+      // fields of the object are resolved by the field resolver
+      return value ?? {};
+    }
+    if (isAbstractType(type)) {
+      const possibleTypes = this.schema.getPossibleTypes(type);
+      const objectType =
+        possibleTypes[Math.floor(context.random() * possibleTypes.length)];
+      const objectValue = this.mocks[objectType.name]?.({
+        ...context,
+        typeName: objectType.name,
+      });
+      return {
+        ...(value as object),
+        ...(objectValue as object),
+        __typename: objectType.name,
+      };
+    }
+    if (value !== undefined) {
+      return value;
+    }
+    if (isEnumType(type)) {
+      return this.mockEnum(type, context);
+    }
+    return this.mockScalar(type, context);
+  }
+
+  protected mockList(
+    type: GraphQLList<GraphQLOutputType>,
+    context: MockContext,
+  ) {
+    return Array.from({ length: this.listLength }, () =>
+      this.mockValue(type.ofType, context),
+    );
+  }
+
+  protected mockEnum(type: GraphQLEnumType, { random }: MockContext) {
+    const values = type.getValues();
+    return values[Math.floor(random() * values.length)].value;
+  }
+
+  protected mockScalar(type: GraphQLScalarType, context: MockContext) {
+    const { random, fieldName } = context;
+    const int = (max: number) => Math.floor(random() * max);
+    // dates between 2020 and 2025
+    const date = () => new Date(1577836800000 + int(157766400) * 1000);
+
+    switch (type.name) {
+      case "ID":
+        return int(0xffffffff).toString(16).padStart(8, "0");
+      case "Int":
+      case "Long":
+      case "BigInt":
+        return int(1000);
+      case "Float":
+      case "Decimal":
+      case "BigDecimal":
+        return Math.round(random() * 100000) / 100;
+      case "Boolean":
+        return random() < 0.5;
+      case "DateTime":
+      case "Timestamp":
+        return date().toISOString();
+      case "Date":
+        return date().toISOString().substring(0, 10);
+      case "Time":
+        return date().toISOString().substring(11, 19);
+      case "JSON":
+      case "Object":
+        return {};
+      case "UUID":
+        return [8, 4, 4, 4, 12]
+          .map((length) =>
+            Array.from({ length }, () => int(16).toString(16)).join(""),
+          )
+          .join("-");
+      default:
+        return this.mockString(fieldName, context);
+    }
+  }
+
+  protected mockString(fieldName: string, { random }: MockContext) {
+    const word = WORDS[Math.floor(random() * WORDS.length)];
+    const number = Math.floor(random() * 1000);
+    const name = fieldName.toLowerCase();
+    if (name.includes("email")) {
+      return `${word}${number}@example.com`;
+    }
+    if (name.includes("url") || name.includes("link")) {
+      return `https://example.com/${word}/${number}`;
+    }
+    return `${fieldName} ${word} ${number}`;
+  }
+}
@@ -4,7 +4,8 @@ import { APIQueryExecutor } from "./api-query-executor";
 
 /**
  * Default executor that always says function definition is valid
- * and returns "void" as execution result
+ * and returns "void" as execution result.
+ * Use `SchemaMockApiQueryExecutor` to get type-correct fake data during development
  */
 export class VoidApiQueryExecutor<TApiQuery extends ApiQuery = ApiQuery>
   implements APIQueryExecutor<TApiQuery>
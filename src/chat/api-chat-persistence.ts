@@ -1,6 +1,7 @@
 import { ApiQuery } from "../api/api-query";
 import { APIQueryExecutor } from "../api/query-executors/api-query-executor";
 import { ChatPersistence } from "./chat-persistence";
+import { observability } from "../observability";
 
 export interface APIChatPersistenceFactoryConfig {
   graphQlUri: string;
@@ -33,12 +34,26 @@ export class APIChatPersistence<
     message: TChatMessage,
     variables: T,
   ): Promise<string> {
-    const res = await this.apiExecutor.executeQuery(
-      this.saveMessageMutation,
-      variables,
-    );
-    this._messages.push(message);
-    return res;
+    const start = Date.now();
+    try {
+      const res = await this.apiExecutor.executeQuery(
+        this.saveMessageMutation,
+        variables,
+      );
+      this._messages.push(message);
+      observability.emit("onPersistenceWrite", {
+        persistence: "api",
+        durationMs: Date.now() - start,
+      });
+      return res;
+    } catch (error) {
+      observability.emit("onPersistenceWrite", {
+        persistence: "api",
+        durationMs: Date.now() - start,
+        error,
+      });
+      throw error;
+    }
   }
 
   /**
@@ -61,7 +76,7 @@ export class APIChatPersistence<
       this._messages = messages.reverse() ?? [];
       return this._messages;
     } catch (error) {
-      console.error("Error retrieving chat messages: ", error);
+      observability.logger.error("Error retrieving chat messages: ", error);
       throw error;
     }
   }
@@ -1,5 +1,6 @@
 import { APIFunction } from "../tool";
 import { ChatPersistence } from "./chat-persistence";
+import { observability } from "../observability";
 
 export class ToolChatPersistence<TChatMessage>
   implements ChatPersistence<TChatMessage>
@@ -24,9 +25,23 @@ export class ToolChatPersistence<TChatMessage>
     message: TChatMessage,
     variables: T,
   ): Promise<string> {
-    const res = await this.saveMessageTool.validateAndExecute(variables);
-    this._messages.push(message);
-    return res;
+    const start = Date.now();
+    try {
+      const res = await this.saveMessageTool.validateAndExecute(variables);
+      this._messages.push(message);
+      observability.emit("onPersistenceWrite", {
+        persistence: "tool",
+        durationMs: Date.now() - start,
+      });
+      return res;
+    } catch (error) {
+      observability.emit("onPersistenceWrite", {
+        persistence: "tool",
+        durationMs: Date.now() - start,
+        error,
+      });
+      throw error;
+    }
   }
 
   /**
@@ -38,14 +53,17 @@ export class ToolChatPersistence<TChatMessage>
     variables: T,
   ): Promise<TChatMessage[]> {
     try {
-      const response = await this.getMessagesTool.validateAndExecute(variables);
+      const response = await this.getMessagesTool.validateAndExecute(
+        variables,
+        { processResult: false },
+      );
       const root = JSON.parse(response);
       // store the messages in reverse order to supply to LLM as context
       this._messages = root?.[this.getMessagesTool.getName()].reverse() ?? [];
 
       return this._messages;
     } catch (error) {
-      console.error("Error retrieving chat messages: ", error);
+      observability.logger.error("Error retrieving chat messages: ", error);
       throw error;
     }
   }
@@ -1,5 +1,11 @@
 import { ApiQuery, APIQueryExecutor } from "../api";
-import { APIFunction, FunctionDefinition } from "../tool";
+import {
+  APIFunction,
+  APIFunctionConfig,
+  FunctionDefinition,
+  getResultRules,
+  ResultRulesConfig,
+} from "../tool";
 
 /**
  * Functional interface for creating an APIFunction.
@@ -10,10 +16,24 @@ export interface APIFunctionFactory<TApiQuery extends ApiQuery = ApiQuery> {
    * Creates an APIFunction instance using the given FunctionDefinition and APIQuery.
    * @param function The function definition.
    * @param query The API query.
+   * @param config Config of the function, e.g. result processors from the converter config.
    * @returns An APIFunction instance.
    */
   create(
     functionDef: FunctionDefinition,
     query: ApiQuery,
+    config?: APIFunctionConfig,
   ): APIFunction<TApiQuery>;
 }
+
+/**
+ * Creates config of the function from result rules of the converter config
+ * @returns config or `undefined` when no rules are configured for the function
+ */
+export const getFunctionConfig = (
+  resultRules: ResultRulesConfig | undefined,
+  functionName: string,
+): APIFunctionConfig | undefined => {
+  const functionRules = getResultRules(resultRules, functionName);
+  return functionRules ? { resultRules: functionRules } : undefined;
+};
@@ -0,0 +1,99 @@
+import { combineArgNameStrings, toCamelCase, toSnakeCase } from "../../utils";
+
+/**
+ * Case of parameter names:
+ * - `preserve` - GraphQL names joined with `_`, e.g. `customer_orderId`
+ * - `camelCase` - e.g. `customerOrderId`
+ * - `snake_case` - e.g. `customer_order_id`
+ */
+export type ArgumentNameCase = "preserve" | "camelCase" | "snake_case";
+
+export interface ArgumentNamingConfig {
+  // Prefixes fields of flattened input objects with the argument name, e.g. `filter_id` instead of `id`. `false` by default
+  prefixInputObjectFields?: boolean;
+  // `preserve` by default
+  case?: ArgumentNameCase;
+  // Longer names are shortened. Not limited by default
+  maxLength?: number;
+}
+
+/**
+ * Creates unique parameter (and GraphQL variable) names for arguments of a single operation
+ * and keeps the mapping from the names back to GraphQL arguments.
+ *
+ * Colliding names get a numeric suffix in the order arguments are visited, e.g. `id` and `id_2`,
+ * so the same schema always produces the same names.
+ * @example
+ * const names = new ArgumentNames({ case: "camelCase" });
+ * // returns "customerId", paths: { customerId: "orders.customer(id)" }
+ * names.add(["customer", "id"], "orders.customer(id)");
+ */
+export class ArgumentNames {
+  // parameter names mapped to paths of GraphQL arguments, e.g. `orders.customer(filter.id)`
+  public readonly paths: Record<string, string> = {};
+
+  constructor(public readonly config: ArgumentNamingConfig = {}) {}
+
+  /**
+   * Number of created names, i.e. variables declared by the operation
+   */
+  get size() {
+    return Object.keys(this.paths).length;
+  }
+
+  /**
+   * Creates a unique name for the argument
+   * @param nameParts names of nested fields and arguments the name is created from
+   * @param path path of the GraphQL argument
+   * @returns unique parameter name
+   */
+  add(nameParts: string[], path: string): string {
+    const baseName = this.formatName(nameParts);
+    let name = this.shorten(baseName);
+    for (let idx = 2; name in this.paths; idx++) {
+      const suffix = this.config.case === "camelCase" ? `${idx}` : `_${idx}`;
+      name = this.shorten(baseName, suffix);
+    }
+    this.paths[name] = path;
+    return name;
+  }
+
+  /**
+   * Removes the name, e.g. when the field of the argument is not selected
+   */
+  remove(name: string) {
+    delete this.paths[name];
+  }
+
+  protected formatName(nameParts: string[]) {
+    switch (this.config.case) {
+      case "camelCase":
+        return toCamelCase(...nameParts);
+      case "snake_case":
+        return toSnakeCase(...nameParts);
+      default:
+        return combineArgNameStrings(...nameParts);
+    }
+  }
+
+  protected shorten(name: string, suffix = "") {
+    const length = Math.max(
+      1,
+      (this.config.maxLength ?? Infinity) - suffix.length,
+    );
+    if (name.length <= length) {
+      return name + suffix;
+    }
+    // remove the separator at the end of the shortened name
+    return name.substring(0, length).replace(/(.)_+$/, "$1") + suffix;
+  }
+}
+
+/**
+ * Creates the path of the GraphQL argument used in `ApiQuery.argumentPaths`
+ * @example
+ * // returns "orders.customer(filter.id)"
+ * getArgumentPath(["orders", "customer"], ["filter", "id"])
+ */
+export const getArgumentPath = (fieldPath: string[], argumentPath: string[]) =>
+  `${fieldPath.join(".")}(${argumentPath.join(".")})`;
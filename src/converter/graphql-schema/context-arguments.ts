@@ -0,0 +1,41 @@
+import { ConstDirectiveNode } from "graphql/language";
+
+/**
+ * Defines which arguments are bound to the call context (e.g. authenticated user or tenant)
+ * instead of being provided by the LLM.
+ * Such arguments are removed from the function parameters and their values
+ * are taken from `ApiQueryExecutionOptions.context` when the function is executed.
+ */
+export interface ContextArgumentsConfig {
+  // Argument (or variable) names. Strings are compared case-insensitively
+  names?: Array<string | RegExp>;
+  // Name of the directive (without `@`) that marks arguments, e.g. `context` for `customerid: Int @context`.
+  // The directive has to be declared in the schema: `directive @context on ARGUMENT_DEFINITION | INPUT_FIELD_DEFINITION`
+  directive?: string;
+}
+
+/**
+ * Checks if the argument is bound to the call context
+ * @param config context arguments configuration
+ * @param name name of the argument or variable
+ * @param directives directives applied to the argument or variable
+ */
+export const isContextArgument = (
+  config: ContextArgumentsConfig | undefined,
+  name: string,
+  directives: ReadonlyArray<ConstDirectiveNode> = [],
+) => {
+  if (!config) {
+    return false;
+  }
+  const nameLower = name.toLowerCase();
+  const matchesName = config.names?.some((matcher) =>
+    typeof matcher === "string"
+      ? matcher.toLowerCase() === nameLower
+      : matcher.test(name),
+  );
+  const matchesDirective =
+    config.directive != null &&
+    directives.some((d) => d.name.value === config.directive);
+  return Boolean(matchesName || matchesDirective);
+};
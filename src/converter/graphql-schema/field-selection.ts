@@ -0,0 +1,67 @@
+import { GraphQLField, GraphQLNonNull, isCompositeType } from "graphql/type";
+import { matchesGlob } from "../../utils";
+import typeConverter from "./type-converter";
+
+/**
+ * Rules for fields selected by queries generated from the schema.
+ * Patterns are matched against `Type.field` and support `*` wildcards, e.g. `Order.*`, `*.id` or `User.internal*`.
+ */
+export interface FieldSelectionConfig {
+  // Only matching fields are selected on types that have at least one matching pattern, other types select all fields
+  include?: string[];
+  // Matching fields are never selected
+  exclude?: string[];
+  // Selects only fields of scalar and enum types. `false` by default
+  scalarsOnly?: boolean;
+  // Maximum number of fields in a selection set (inline fragments have own selection sets). Not limited by default
+  maxFields?: number;
+  // Skips nested fields that have required arguments without default values. `false` by default
+  skipFieldsWithRequiredArgs?: boolean;
+}
+
+const getTypeName = (pattern: string) =>
+  pattern.substring(0, pattern.lastIndexOf("."));
+
+/**
+ * Checks if the nested field is selected by the rules
+ * @param config selection rules
+ * @param parentTypeName name of the type the field is selected on
+ * @param field field of the type
+ */
+export const isFieldSelected = (
+  config: FieldSelectionConfig | undefined,
+  parentTypeName: string,
+  field: GraphQLField<any, any>,
+) => {
+  if (!config) {
+    return true;
+  }
+  const coordinate = `${parentTypeName}.${field.name}`;
+  const matches = (pattern: string) => matchesGlob(coordinate, pattern);
+
+  const typeIncludes = (config.include ?? []).filter((pattern) =>
+    matchesGlob(parentTypeName, getTypeName(pattern)),
+  );
+  if (typeIncludes.length > 0 && !typeIncludes.some(matches)) {
+    return false;
+  }
+  if (config.exclude?.some(matches)) {
+    return false;
+  }
+  if (
+    config.scalarsOnly &&
+    isCompositeType(typeConverter.unwrapType(field.type))
+  ) {
+    return false;
+  }
+  if (
+    config.skipFieldsWithRequiredArgs &&
+    field.args.some(
+      (arg) =>
+        arg.type instanceof GraphQLNonNull && arg.defaultValue === undefined,
+    )
+  ) {
+    return false;
+  }
+  return true;
+};
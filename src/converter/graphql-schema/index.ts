@@ -1,4 +1,8 @@
+export * from "./argument-naming";
+export * from "./context-arguments";
+export * from "./field-selection";
 export * from "./operation-converter";
+export * from "./operation-validation";
 export { default as graphQlSchemaConverterConfig } from "./schema-converter-config";
 export * from "./schema-converter-config";
 export * from "./schema-converter";
@@ -5,6 +5,7 @@ import {
   parse,
   VariableDefinitionNode,
 } from "graphql/language";
+import { GraphQLSchema } from "graphql/type";
 import {
   ApiQuery,
   FetchApiQueryExecutor,
@@ -15,22 +16,43 @@ import {
   APIFunction,
   FunctionDefinition,
   FunctionDefinitionParameters,
+  ResultRulesConfig,
 } from "../../tool";
 import {
   createFunctionDefinition,
   getNodeDescriptionByLocation,
   getNodeStringByLocation,
 } from "../../utils";
-import { APIFunctionFactory } from "../api-function-factory";
+import { APIFunctionFactory, getFunctionConfig } from "../api-function-factory";
 import { StandardAPIFunctionFactory } from "../standard-api-function-factory";
-import typeConverter from "./type-converter";
+import typeConverter, { ScalarMappings } from "./type-converter";
+import { ContextArgumentsConfig, isContextArgument } from "./context-arguments";
+import {
+  OperationValidationMode,
+  toGraphQLSchema,
+  validateOperation,
+} from "./operation-validation";
 
 export interface OperationConverter<TApiQuery extends ApiQuery = ApiQuery> {
   convertOperations(operationDefinition: string): APIFunction<TApiQuery>[];
 }
 
+export interface GraphQlOperationConverterConfig {
+  // Variables that are taken from the call context and hidden from the LLM
+  contextArguments?: ContextArgumentsConfig;
+  // Projection and formatting of results of converted functions
+  resultRules?: ResultRulesConfig;
+  // Schema (SDL or built schema) the operations are validated against, e.g. from `introspectSchema`
+  schema?: GraphQLSchema | string;
+  // Validates operations against `schema`. Not validated when not set
+  validateOperations?: OperationValidationMode;
+  // JSON Schema of custom scalars, used in addition to `defaultScalarMappings`
+  scalars?: ScalarMappings;
+}
+
 export interface OperationConverterConfig
-  extends Omit<FetchApiQueryExecutorConfig, "graphqlUri"> {
+  extends Omit<FetchApiQueryExecutorConfig, "graphqlUri">,
+    GraphQlOperationConverterConfig {
   // When set, FetchApiQueryExecutor with provided URI will be used as apiExecutor for converted Api Functions
   graphqlUri?: string;
 }
@@ -38,9 +60,17 @@ export interface OperationConverterConfig
 export class GraphQlOperationConverter<TApiQuery extends ApiQuery = ApiQuery>
   implements OperationConverter<TApiQuery>
 {
+  protected readonly schema?: GraphQLSchema;
+
   constructor(
     public readonly functionFactory: APIFunctionFactory<TApiQuery> = new StandardAPIFunctionFactory<TApiQuery>(),
-  ) {}
+    public readonly config: GraphQlOperationConverterConfig = {},
+  ) {
+    if (config.validateOperations && !config.schema) {
+      throw new Error("`schema` is required to validate operations");
+    }
+    this.schema = config.schema ? toGraphQLSchema(config.schema) : undefined;
+  }
 
   /**
    * Converts provided operation definitions to API function mappings
@@ -64,6 +94,7 @@ export class GraphQlOperationConverter<TApiQuery extends ApiQuery = ApiQuery>
 
     const converter = new GraphQlOperationConverter(
       new StandardAPIFunctionFactory<ApiQuery>(apiExecutor),
+      operationConverterConfig,
     );
     return converter.convertOperations(operationDefinition);
   }
@@ -72,6 +103,7 @@ export class GraphQlOperationConverter<TApiQuery extends ApiQuery = ApiQuery>
    * Converts provided operation definitions to API function mappings
    * @param operationDefinition string that contains a list of operation definitions (queries & mutations).
    * But not an entire schema
+   * @throws OperationValidationError if an operation is invalid for the schema in `reject` validation mode
    * @returns list of API Functions mapped from provided definitions
    */
   convertOperations(operationDefinition: string): APIFunction<TApiQuery>[] {
@@ -96,10 +128,27 @@ export class GraphQlOperationConverter<TApiQuery extends ApiQuery = ApiQuery>
         prevNodeEndLocation,
       );
       const query = getNodeStringByLocation(
-        operationDefinition,
+        this.removeContextDirectives(operationDefinition, definition),
         definition.loc,
       );
-      return this.functionFactory.create(functionDefinition, { query });
+      if (this.schema && this.config.validateOperations) {
+        validateOperation(
+          this.schema,
+          query,
+          functionDefinition.name,
+          this.config.validateOperations,
+        );
+      }
+      const apiQuery = { query } as TApiQuery;
+      const contextArguments = this.getContextArguments(definition);
+      if (Object.keys(contextArguments).length > 0) {
+        apiQuery.contextArguments = contextArguments;
+      }
+      return this.functionFactory.create(
+        functionDefinition,
+        apiQuery,
+        getFunctionConfig(this.config.resultRules, functionDefinition.name),
+      );
     });
 
     return functions;
@@ -147,6 +196,10 @@ export class GraphQlOperationConverter<TApiQuery extends ApiQuery = ApiQuery>
           const prevNodeLocationEnd =
             node.variableDefinitions?.[idx - 1]?.loc?.end || node.loc?.start;
 
+          if (this.isContextVariable(variableDef)) {
+            // value is taken from the call context, so it is not exposed to the LLM
+            return acc;
+          }
           const { name, isRequired, argumentDefinition } =
             this.convertToArgumentDefinition(
               variableDef,
@@ -171,6 +224,61 @@ export class GraphQlOperationConverter<TApiQuery extends ApiQuery = ApiQuery>
     };
   }
 
+  /**
+   * Checks if the variable is bound to the call context
+   * @param variableDef VariableDefinitionNode from GraphQL OperationDefinitionNode
+   */
+  protected isContextVariable(variableDef: VariableDefinitionNode) {
+    return isContextArgument(
+      this.config.contextArguments,
+      variableDef.variable.name.value,
+      variableDef.directives,
+    );
+  }
+
+  /**
+   * Removes the context directive from variable definitions,
+   * because it is known only to the converter and would be rejected by the API
+   * @param operationDefinition string that contains a list of operation definitions
+   * @param node OperationDefinitionNode from GraphQL Document
+   * @returns operation definitions string where directives are replaced with spaces,
+   * so locations of all nodes stay the same
+   */
+  protected removeContextDirectives(
+    operationDefinition: string,
+    node: OperationDefinitionNode,
+  ) {
+    const directiveName = this.config.contextArguments?.directive;
+    if (!directiveName) {
+      return operationDefinition;
+    }
+    return (node.variableDefinitions ?? [])
+      .flatMap((variableDef) => variableDef.directives ?? [])
+      .filter((directive) => directive.name.value === directiveName)
+      .reduce((acc, directive) => {
+        const start = directive.loc?.start ?? 0;
+        const end = directive.loc?.end ?? 0;
+        return (
+          acc.substring(0, start) + " ".repeat(end - start) + acc.substring(end)
+        );
+      }, operationDefinition);
+  }
+
+  /**
+   * Collects variables bound to the call context
+   * @param node OperationDefinitionNode from GraphQL Document
+   * @returns map of variable names to the keys in the call context
+   */
+  protected getContextArguments(node: OperationDefinitionNode) {
+    return (node.variableDefinitions ?? [])
+      .filter((variableDef) => this.isContextVariable(variableDef))
+      .reduce<Record<string, string>>((acc, variableDef) => {
+        const name = variableDef.variable.name.value;
+        acc[name] = name;
+        return acc;
+      }, {});
+  }
+
   /**
    * Create Function Argument definition from VariableDefinitionNode
    * @param variableDef VariableDefinitionNode from GraphQL OperationDefinitionNode
@@ -189,18 +297,23 @@ export class GraphQlOperationConverter<TApiQuery extends ApiQuery = ApiQuery>
       variableDef.type,
     );
     // unwrap LIST_TYPE and add `type` field to argumentDefinition
-    const argumentDefinition = typeConverter.typeNodeToArgumentDefinition(type);
-
-    argumentDefinition.description = getNodeDescriptionByLocation(
-      operationDefinition,
-      variableDef.loc?.start,
-      prevNodeLocationEnd,
+    const argumentDefinition = typeConverter.addDefaultValue(
+      typeConverter.addDescription(
+        typeConverter.typeNodeToArgumentDefinition(type, this.config.scalars),
+        getNodeDescriptionByLocation(
+          operationDefinition,
+          variableDef.loc?.start,
+          prevNodeLocationEnd,
+        ),
+      ),
+      typeConverter.getDefaultValueFromNode(variableDef.defaultValue),
     );
 
     return {
       name: variableDef.variable.name.value,
       argumentDefinition,
-      isRequired,
+      // variables with default values can be omitted
+      isRequired: isRequired && argumentDefinition.default === undefined,
     };
   }
 }
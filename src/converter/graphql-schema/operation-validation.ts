@@ -0,0 +1,92 @@
+import { GraphQLError } from "graphql/error";
+import { parse } from "graphql/language";
+import { GraphQLSchema } from "graphql/type";
+import {
+  buildClientSchema,
+  buildSchema,
+  getIntrospectionQuery,
+} from "graphql/utilities";
+import { validate } from "graphql/validation";
+import { ApiQuery, APIQueryExecutor } from "../../api";
+import { observability } from "../../observability";
+
+/**
+ * How invalid operations are handled when tools are created:
+ * - `reject` - the operation is not converted into a tool
+ * - `report` - the tool is created, errors are logged and reported with `onConversionWarning` hook
+ */
+export type OperationValidationMode = "reject" | "report";
+
+/**
+ * Error thrown when a generated or provided operation is invalid for the schema
+ */
+export class OperationValidationError extends Error {
+  constructor(
+    public readonly operationName: string,
+    public readonly errors: ReadonlyArray<GraphQLError>,
+  ) {
+    super(
+      `Operation [${operationName}] is invalid for the schema:\n` +
+        errors.map((e) => e.message).join("\n"),
+    );
+    this.name = "OperationValidationError";
+  }
+}
+
+/**
+ * Validates the operation against the schema with graphql-js rules,
+ * e.g. unknown fields and variables or mismatching variable types
+ * @param schema schema of the API
+ * @param query operation document
+ * @param operationName name used in error messages
+ * @param mode `reject` throws the error, `report` logs it and emits `onConversionWarning`
+ * @throws OperationValidationError in `reject` mode
+ * @returns validation errors, empty when the operation is valid
+ */
+export const validateOperation = (
+  schema: GraphQLSchema,
+  query: string,
+  operationName: string,
+  mode: OperationValidationMode,
+): ReadonlyArray<GraphQLError> => {
+  const errors = validate(schema, parse(query));
+  if (errors.length === 0) {
+    return errors;
+  }
+
+  const error = new OperationValidationError(operationName, errors);
+  if (mode === "reject") {
+    throw error;
+  }
+  observability.logger.warn(error.message);
+  observability.emit("onConversionWarning", {
+    operationName,
+    message: error.message,
+    error,
+  });
+  return errors;
+};
+
+/**
+ * Builds the schema from SDL. Schemas are passed through as they are
+ */
+export const toGraphQLSchema = (schema: GraphQLSchema | string) =>
+  typeof schema === "string" ? buildSchema(schema) : schema;
+
+/**
+ * Loads the schema of the API with the introspection query
+ * @example
+ * const converter = new GraphQlOperationConverter(functionFactory, {
+ *   schema: await introspectSchema(apiExecutor),
+ *   validateOperations: "reject",
+ * });
+ */
+export const introspectSchema = async <TApiQuery extends ApiQuery = ApiQuery>(
+  apiExecutor: APIQueryExecutor<TApiQuery>,
+): Promise<GraphQLSchema> => {
+  const introspectionQuery = {
+    query: getIntrospectionQuery(),
+  } as TApiQuery;
+  const res = await apiExecutor.executeQuery(introspectionQuery);
+  return buildClientSchema(JSON.parse(res));
+};
@@ -1,11 +1,43 @@
+import { ResultRulesConfig } from "../../tool";
+import { ArgumentNamingConfig } from "./argument-naming";
+import { ContextArgumentsConfig } from "./context-arguments";
+import { FieldSelectionConfig } from "./field-selection";
+import { ScalarMappings } from "./type-converter";
+import { OperationValidationMode } from "./operation-validation";
+
 export type GraphQLSchemaConverterConfigOperationFilter = (
   operation: string,
   name: string,
 ) => boolean;
+/**
+ * How arguments of input object types are converted:
+ * - `flatten` - fields of the input object become separate parameters, e.g. `filter_name`
+ * - `nested` - the argument becomes a single `object` parameter passed as one GraphQL variable
+ */
+export type InputObjectMode = "flatten" | "nested";
+
 export interface GraphQLSchemaConverterConfig {
   operationFilter: GraphQLSchemaConverterConfigOperationFilter;
   maxDepth: number;
   verbose: boolean;
+  // Arguments that are taken from the call context and hidden from the LLM
+  contextArguments?: ContextArgumentsConfig;
+  // Projection and formatting of results of generated functions
+  resultRules?: ResultRulesConfig;
+  // Validates generated queries against the schema. Not validated when not set
+  validateOperations?: OperationValidationMode;
+  // `flatten` by default
+  inputObjects?: InputObjectMode;
+  // Levels of input objects converted into `object` schemas, deeper (e.g. recursive) objects accept any value. 3 by default
+  maxInputDepth?: number;
+  // Names of parameters created from arguments, colliding names are always disambiguated
+  argumentNaming?: ArgumentNamingConfig;
+  // Rules for fields selected by generated queries. All fields up to `maxDepth` are selected by default
+  selection?: FieldSelectionConfig;
+  // Depth limits of operations by name of the root field, used instead of `maxDepth`
+  maxDepthByOperation?: Record<string, number>;
+  // JSON Schema of custom scalars, used in addition to `defaultScalarMappings`
+  scalars?: ScalarMappings;
 }
 
 export const alwaysTrulyOperationFilter: GraphQLSchemaConverterConfigOperationFilter =
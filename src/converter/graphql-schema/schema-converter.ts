@@ -5,12 +5,12 @@ import {
   FetchApiQueryExecutorConfig,
 } from "../../api";
 import { APIFunction, FunctionDefinitionParameters } from "../../tool";
-import { APIFunctionFactory } from "../api-function-factory";
+import { observability } from "../../observability";
+import { APIFunctionFactory, getFunctionConfig } from "../api-function-factory";
 import graphQlSchemaConverterConfig, {
   GraphQLSchemaConverterConfig,
 } from "./schema-converter-config";
 import {
-  combineArgNameStrings,
   combineOperationNameStrings,
   createFunctionDefinition,
   getNodeDescriptionByLocation,
@@ -19,18 +19,22 @@ import {
   processField,
 } from "../../utils";
 import { VisitContext } from "./visit-context";
+import { isFieldSelected } from "./field-selection";
+import { ArgumentNames, getArgumentPath } from "./argument-naming";
+import { introspectSchema, validateOperation } from "./operation-validation";
+import { isContextArgument } from "./context-arguments";
 import typeConverter from "./type-converter";
 import { StandardAPIFunctionFactory } from "../standard-api-function-factory";
+import { buildSchema, printSchema } from "graphql/utilities";
 import {
-  buildClientSchema,
-  buildSchema,
-  getIntrospectionQuery,
-  printSchema,
-} from "graphql/utilities";
-import {
+  GraphQLCompositeType,
   GraphQLField,
   GraphQLInputObjectType,
+  GraphQLInterfaceType,
   GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLUnionType,
+  isCompositeType,
 } from "graphql/type";
 
 export interface SchemaConverter<TApiQuery extends ApiQuery = ApiQuery> {
@@ -73,13 +77,8 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
   }
 
   async convertSchemaFromApiExecutor() {
-    const introspectionQuery = {
-      query: getIntrospectionQuery(),
-    } as TApiQuery;
-    const res =
-      await this.functionFactory.apiExecutor.executeQuery(introspectionQuery);
-    const schemaDefinition = buildClientSchema(JSON.parse(res));
-    return this.convertSchema(printSchema(schemaDefinition));
+    const schema = await introspectSchema(this.functionFactory.apiExecutor);
+    return this.convertSchema(printSchema(schema));
   }
 
   convertSchema(schemaDefinition: string): APIFunction<TApiQuery>[] {
@@ -93,7 +92,11 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
 
     const functionsFromQueries = Object.values(queries)
       .map(
-        this.createApiFunctionFromGraphQLOperation("query", schemaDefinition),
+        this.createApiFunctionFromGraphQLOperation(
+          "query",
+          schemaDefinition,
+          schema,
+        ),
       )
       .filter(Boolean);
     const functionsFromMutations = Object.values(mutations)
@@ -101,6 +104,7 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
         this.createApiFunctionFromGraphQLOperation(
           "mutation",
           schemaDefinition,
+          schema,
         ),
       )
       .filter(Boolean);
@@ -112,7 +116,11 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
   }
 
   private createApiFunctionFromGraphQLOperation =
-    (operationName: "query" | "mutation", schemaDefinition: string) =>
+    (
+      operationName: "query" | "mutation",
+      schemaDefinition: string,
+      schema: GraphQLSchema,
+    ) =>
     (field: GraphQLField<any, any>) => {
       try {
         if (this.config.operationFilter(operationName, field.name)) {
@@ -120,10 +128,17 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
             operationName,
             field,
             schemaDefinition,
+            schema,
           );
         }
       } catch (e) {
-        console.error(`Error converting query: ${field.name}`, e);
+        const message = `Error converting query: ${field.name}`;
+        observability.logger.error(message, e);
+        observability.emit("onConversionWarning", {
+          operationName: field.name,
+          message,
+          error: e,
+        });
       }
       return null;
     };
@@ -132,6 +147,7 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
     operationType: "query" | "mutation",
     field: GraphQLField<any, any>,
     schemaDefinition: string,
+    schema: GraphQLSchema,
   ): APIFunction<TApiQuery> {
     const functionDef = createFunctionDefinition(
       field.name,
@@ -141,16 +157,47 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
       operationType.toLowerCase(),
       field.name,
     );
-    const queryHeader = `${operationType.toLowerCase()} ${field.name}(`;
 
+    const context = new VisitContext(
+      schemaDefinition,
+      operationName,
+      "",
+      0,
+      [],
+      {},
+      [field.name],
+      new ArgumentNames(this.config.argumentNaming),
+      schema,
+    );
     const { queryParams, queryBody } = this.visit(
       field,
       functionDef.parameters,
-      new VisitContext(schemaDefinition, operationName, "", 0, []),
+      context,
     );
 
-    const query = `${queryHeader}${queryParams}) {\n${queryBody}\n}`;
-    return this.functionFactory.create(functionDef, { query });
+    // operations without variables have no variable definitions
+    const variableDefinitions = queryParams ? `(${queryParams})` : "";
+    const query = `${operationType.toLowerCase()} ${field.name}${variableDefinitions} {\n${queryBody}\n}`;
+    if (this.config.validateOperations) {
+      validateOperation(
+        schema,
+        query,
+        field.name,
+        this.config.validateOperations,
+      );
+    }
+    const apiQuery = { query } as TApiQuery;
+    if (Object.keys(context.contextArguments).length > 0) {
+      apiQuery.contextArguments = context.contextArguments;
+    }
+    if (Object.keys(context.argumentNames.paths).length > 0) {
+      apiQuery.argumentPaths = context.argumentNames.paths;
+    }
+    return this.functionFactory.create(
+      functionDef,
+      apiQuery,
+      getFunctionConfig(this.config.resultRules, functionDef.name),
+    );
   }
 
   public visit(
@@ -162,18 +209,18 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
     let queryBody = "";
     const type = typeConverter.unwrapType(field.type);
 
-    if (type instanceof GraphQLObjectType) {
+    if (isCompositeType(type)) {
       // Don't recurse in a cycle or if depth limit is exceeded
       if (context.path.includes(type)) {
         if (this.config.verbose) {
-          console.info(
+          observability.logger.info(
             `Detected cycle on operation '${context.operationName}'. Aborting traversal.`,
           );
         }
         return { success: false, queryParams, queryBody };
-      } else if (context.path.length + 1 > this.config.maxDepth) {
+      } else if (context.path.length + 1 > this.getMaxDepth(context)) {
         if (this.config.verbose) {
-          console.info(
+          observability.logger.info(
             `Aborting traversal because depth limit exceeded on operation '${context.operationName}'`,
           );
         }
@@ -183,6 +230,12 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
 
     queryBody += field.name;
     let numArgs = 0;
+    // names are removed again if the field can not be selected
+    const previousArgumentNames = Object.keys(context.argumentNames.paths);
+
+    const maxInputDepth =
+      this.config.maxInputDepth ?? typeConverter.DEFAULT_MAX_INPUT_DEPTH;
+    const typeConversion = { maxInputDepth, scalars: this.config.scalars };
 
     if (field.args.length > 0) {
       queryBody += "(";
@@ -191,7 +244,10 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
         const arg = field.args[i];
         let unwrappedType = typeConverter.unwrapRequiredType(arg.type);
 
-        if (unwrappedType.type instanceof GraphQLInputObjectType) {
+        if (
+          unwrappedType.type instanceof GraphQLInputObjectType &&
+          this.config.inputObjects !== "nested"
+        ) {
           const inputType = unwrappedType.type;
           const isFirstArg = i === 0;
           queryBody += `${isFirstArg ? "" : ", "}${arg.name}: { `;
@@ -207,7 +263,19 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
               context,
               numArgs,
               unwrappedType,
-              combineArgNameStrings(context.prefix, nestedField.name),
+              context.argumentNames.add(
+                [
+                  ...context.fieldPath.slice(1),
+                  ...(this.config.argumentNaming?.prefixInputObjectFields
+                    ? [arg.name]
+                    : []),
+                  nestedField.name,
+                ],
+                getArgumentPath(context.fieldPath, [
+                  arg.name,
+                  nestedField.name,
+                ]),
+              ),
               nestedField.name,
               nestedField.description?.trim() ??
                 getNodeDescriptionByLocation(
@@ -215,6 +283,14 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
                   nestedField.astNode?.loc?.start,
                   inputType.astNode?.loc?.start,
                 ),
+              isContextArgument(
+                this.config.contextArguments,
+                nestedField.name,
+                nestedField.astNode?.directives,
+              ),
+              // the flattened input object is the first level
+              { ...typeConversion, maxInputDepth: maxInputDepth - 1 },
+              typeConverter.getDefaultValue(nestedField),
             );
             queryParams += precessedData.queryHeader;
             if (
@@ -237,7 +313,10 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
             context,
             numArgs,
             unwrappedType,
-            combineArgNameStrings(context.prefix, arg.name),
+            context.argumentNames.add(
+              [...context.fieldPath.slice(1), arg.name],
+              getArgumentPath(context.fieldPath, [arg.name]),
+            ),
             arg.name,
             arg.description?.trim() ??
               getNodeDescriptionByLocation(
@@ -245,6 +324,13 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
                 arg.astNode?.loc?.start,
                 field.astNode?.loc?.start,
               ),
+            isContextArgument(
+              this.config.contextArguments,
+              arg.name,
+              arg.astNode?.directives,
+            ),
+            typeConversion,
+            typeConverter.getDefaultValue(arg),
           );
           queryParams += precessedData.queryHeader;
           queryBody += precessedData.queryBody;
@@ -258,39 +344,20 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
       queryBody += ")";
     }
 
-    if (type instanceof GraphQLObjectType) {
-      const objectType = type;
-
-      queryBody += " {\n";
-      let atLeastOneField = false;
-
-      for (const nestedField of Object.values(objectType.getFields())) {
-        const {
-          success,
-          queryParams: queryParamsNested,
-          queryBody: queryBodyNested,
-        } = this.visit(
-          nestedField,
-          params,
-          context.nested(
-            context.schemaDefinition,
-            nestedField.name,
-            objectType,
-            numArgs,
-          ),
-        );
-        queryParams += queryParamsNested;
-        queryBody += queryBodyNested;
-        atLeastOneField ||= success;
+    if (isCompositeType(type)) {
+      const { success, ...selection } = this.visitSelectionSet(
+        type,
+        params,
+        context,
+        numArgs,
+      );
+      if (!success) {
+        // e.g. all fields of the type are excluded by selection rules
+        this.removeArguments(params, context, previousArgumentNames);
+        return { success: false, queryParams: "", queryBody: "" };
       }
-
-      if (!atLeastOneField) {
-        throw new Error(
-          `Expected at least one field on path: ${context.operationName}`,
-        );
-      }
-
-      queryBody += "}";
+      queryParams += selection.queryParams;
+      queryBody += ` {\n${selection.queryBody}}`;
     }
 
     queryBody += "\n";
@@ -300,6 +367,181 @@ export class GraphQLSchemaConverter<TApiQuery extends ApiQuery = ApiQuery>
       queryBody,
     };
   }
+
+  /**
+   * Removes parameters and variables created after `previousArgumentNames`, e.g. arguments of a skipped field
+   */
+  protected removeArguments(
+    params: FunctionDefinitionParameters,
+    context: VisitContext,
+    previousArgumentNames: string[],
+  ) {
+    const removedNames = Object.keys(context.argumentNames.paths).filter(
+      (name) => !previousArgumentNames.includes(name),
+    );
+    for (const name of removedNames) {
+      context.argumentNames.remove(name);
+      delete params.properties[name];
+      delete context.contextArguments[name];
+    }
+    params.required = params.required.filter(
+      (name) => !removedNames.includes(name),
+    );
+  }
+
+  /**
+   * Creates the selection set of an object, interface or union type.
+   * Fields of union members and of interface implementations (that are not declared by the interface)
+   * are selected with inline fragments together with `__typename`
+   * @throws Error if no field of the root type could be selected
+   * @returns `success: false` if no field of a nested object type could be selected
+   */
+  protected visitSelectionSet(
+    type: GraphQLCompositeType,
+    params: FunctionDefinitionParameters,
+    context: VisitContext,
+    numArgs: number,
+  ) {
+    if (type instanceof GraphQLObjectType) {
+      const { success, ...selection } = this.visitFields(
+        type,
+        Object.values(type.getFields()),
+        params,
+        context,
+        numArgs,
+      );
+      // the operation needs a selection on the root field, nested fields without one are skipped
+      if (!success && context.path.length === 0) {
+        throw new Error(
+          `Expected at least one field on path: ${context.operationName}`,
+        );
+      }
+      return { success, ...selection };
+    }
+
+    let queryParams = "";
+    let queryBody = "__typename\n";
+    const interfaceFields =
+      type instanceof GraphQLInterfaceType ? type.getFields() : {};
+    if (type instanceof GraphQLInterfaceType) {
+      const commonFields = this.visitFields(
+        type,
+        Object.values(interfaceFields),
+        params,
+        context,
+        numArgs,
+      );
+      queryParams += commonFields.queryParams;
+      queryBody += commonFields.queryBody;
+    }
+
+    // fields with the same name have to return the same type in all fragments
+    const fragmentFieldTypes = new Map<string, string>();
+    for (const possibleType of this.getPossibleTypes(type, context)) {
+      if (context.path.includes(possibleType)) {
+        if (this.config.verbose) {
+          observability.logger.info(
+            `Detected cycle on operation '${context.operationName}'. Skipping fragment on ${possibleType.name}.`,
+          );
+        }
+        continue;
+      }
+      const fragment = this.visitFields(
+        possibleType,
+        Object.values(possibleType.getFields()).filter(
+          (f) => !(f.name in interfaceFields),
+        ),
+        params,
+        context,
+        numArgs,
+        fragmentFieldTypes,
+      );
+      if (fragment.success) {
+        queryParams += fragment.queryParams;
+        queryBody += `... on ${possibleType.name} {\n${fragment.queryBody}}\n`;
+      }
+    }
+    // `__typename` is always selected
+    return { success: true, queryParams, queryBody };
+  }
+
+  /**
+   * Visits the fields selected on the parent type
+   * @param fieldTypes types of fields selected in sibling fragments,
+   * fields that return a different type are aliased as `Type_field`
+   * @returns `success: false` if no field could be selected
+   */
+  protected visitFields(
+    parentType: GraphQLObjectType | GraphQLInterfaceType,
+    fields: GraphQLField<any, any>[],
+    params: FunctionDefinitionParameters,
+    context: VisitContext,
+    numArgs: number,
+    fieldTypes?: Map<string, string>,
+  ) {
+    let queryParams = "";
+    let queryBody = "";
+    let success = false;
+    let numFields = 0;
+    const maxFields = this.config.selection?.maxFields ?? Infinity;
+
+    for (const nestedField of fields) {
+      if (numFields >= maxFields) {
+        break;
+      }
+      if (
+        !isFieldSelected(this.config.selection, parentType.name, nestedField)
+      ) {
+        continue;
+      }
+      const nested = this.visit(
+        nestedField,
+        params,
+        context.nested(
+          context.schemaDefinition,
+          nestedField.name,
+          parentType,
+          numArgs,
+        ),
+      );
+      if (!nested.success) {
+        continue;
+      }
+      queryParams += nested.queryParams;
+      const fieldType = String(nestedField.type);
+      const selectedType = fieldTypes?.get(nestedField.name);
+      if (selectedType && selectedType !== fieldType) {
+        queryBody += `${parentType.name}_${nestedField.name}: `;
+      } else {
+        fieldTypes?.set(nestedField.name, fieldType);
+      }
+      queryBody += nested.queryBody;
+      success = true;
+      numFields++;
+    }
+    return { success, queryParams, queryBody };
+  }
+
+  /**
+   * @returns depth limit of the operation the context belongs to
+   */
+  protected getMaxDepth(context: VisitContext) {
+    // the first field of the path is the root field of the operation
+    const operationField = context.fieldPath[0];
+    return (
+      this.config.maxDepthByOperation?.[operationField] ?? this.config.maxDepth
+    );
+  }
+
+  protected getPossibleTypes(
+    type: GraphQLInterfaceType | GraphQLUnionType,
+    context: VisitContext,
+  ): readonly GraphQLObjectType[] {
+    if (context.schema) {
+      return context.schema.getPossibleTypes(type);
+    }
+    return type instanceof GraphQLUnionType ? type.getTypes() : [];
+  }
 }
 // Re-export static method so it can be used in a functional style in minimal example
 export const createToolsFromApiUri =
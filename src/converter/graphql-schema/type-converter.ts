@@ -1,22 +1,63 @@
-import { Kind, ListTypeNode, NamedTypeNode, TypeNode } from "graphql/language";
-import { FunctionDefinitionArgument } from "../../tool";
+import {
+  Kind,
+  ListTypeNode,
+  NamedTypeNode,
+  TypeNode,
+  ValueNode,
+} from "graphql/language";
+import { FunctionDefinitionArgument, JsonSchemaType } from "../../tool";
 import {
   GraphQLEnumType,
+  GraphQLInputObjectType,
   GraphQLInputType,
   GraphQLList,
   GraphQLNonNull,
   GraphQLOutputType,
   GraphQLScalarType,
 } from "graphql/type";
+import { astFromValue, valueFromASTUntyped } from "graphql/utilities";
 
 export interface TypeNodeProcessor {
   kind: Kind;
-  toArgument: (t: TypeNode) => FunctionDefinitionArgument;
+  toArgument: (
+    t: TypeNode,
+    scalars?: ScalarMappings,
+  ) => FunctionDefinitionArgument;
 }
 
 export interface InputToArgumentProcessor {
-  type: typeof GraphQLScalarType | typeof GraphQLEnumType | typeof GraphQLList;
-  toArgument: (t: GraphQLInputType) => FunctionDefinitionArgument;
+  type:
+    | typeof GraphQLScalarType
+    | typeof GraphQLEnumType
+    | typeof GraphQLList
+    | typeof GraphQLInputObjectType;
+  toArgument: (
+    t: GraphQLInputType,
+    options: TypeConversionOptions,
+  ) => FunctionDefinitionArgument;
+}
+
+/**
+ * JSON Schema of arguments of a scalar type
+ */
+export interface ScalarMapping {
+  // Omitted when any value is accepted
+  type?: JsonSchemaType;
+  // e.g. `date-time`, a hint for the model that is not validated
+  format?: string;
+  // Added to descriptions of arguments, e.g. to explain the expected value
+  description?: string;
+  examples?: unknown[];
+}
+
+// Scalar type names mapped to JSON Schema
+export type ScalarMappings = Record<string, ScalarMapping>;
+
+export interface TypeConversionOptions {
+  // Levels of input objects converted into `object` schemas. Deeper input objects are accepted as any object
+  maxInputDepth?: number;
+  // Mappings of custom scalars, used in addition to `defaultScalarMappings`
+  scalars?: ScalarMappings;
 }
 
 export interface UnwrapRequiredType {
@@ -24,28 +65,136 @@ export interface UnwrapRequiredType {
   required: boolean;
 }
 
-const DEFAULT_TS_TYPE = "string";
-const scalarToTSTypesMap: Readonly<Record<string, string>> = {
-  Int: "integer",
-  Float: "number",
-  String: "string",
-  Boolean: "boolean",
-  ID: "string",
+const DEFAULT_TS_TYPE: JsonSchemaType = "string";
+const DEFAULT_MAX_INPUT_DEPTH = 3;
+
+/**
+ * Mappings of built-in and common custom scalars.
+ * Unknown scalars are converted to `string`
+ */
+export const defaultScalarMappings: Readonly<ScalarMappings> = {
+  Int: { type: "integer" },
+  Float: { type: "number" },
+  String: { type: "string" },
+  Boolean: { type: "boolean" },
+  ID: { type: "string" },
+  DateTime: { type: "string", format: "date-time" },
+  Timestamp: { type: "string", format: "date-time" },
+  Date: { type: "string", format: "date" },
+  Time: { type: "string", format: "time" },
+  Long: { type: "integer" },
+  BigInt: { type: "integer" },
+  Short: { type: "integer" },
+  BigDecimal: { type: "number" },
+  Decimal: { type: "number" },
+  UUID: { type: "string", format: "uuid" },
+  URL: { type: "string", format: "uri" },
+  Email: { type: "string", format: "email" },
+  JSON: {},
+};
+
+/**
+ * Converts the scalar to the argument definition
+ * @param name name of the scalar type
+ * @param scalars custom mappings, used before `defaultScalarMappings`
+ */
+const convertScalar = (
+  name: string,
+  scalars?: ScalarMappings,
+): FunctionDefinitionArgument => {
+  const mapping = scalars?.[name] ?? defaultScalarMappings[name];
+  if (!mapping) {
+    return { type: DEFAULT_TS_TYPE };
+  }
+  const argument: FunctionDefinitionArgument = {};
+  if (mapping.type) {
+    argument.type = mapping.type;
+  }
+  if (mapping.format) {
+    argument.format = mapping.format;
+  }
+  if (mapping.description) {
+    argument.description = mapping.description;
+  }
+  if (mapping.examples) {
+    argument.examples = mapping.examples;
+  }
+  return argument;
+};
+
+/**
+ * Adds the description of the argument before the description of its type (e.g. from the scalar mapping)
+ */
+const addDescription = (
+  argument: FunctionDefinitionArgument,
+  description?: string,
+) => {
+  if (description) {
+    argument.description = argument.description
+      ? `${description}\n${argument.description}`
+      : description;
+  }
+  return argument;
+};
+
+/**
+ * Sets the default value of the argument and mentions it in the description, so the model knows it can omit the value
+ * @example
+ * // returns { type: "integer", default: 10, description: "Page size\nDefault: 10" }
+ * addDefaultValue({ type: "integer", description: "Page size" }, 10)
+ */
+const addDefaultValue = (
+  argument: FunctionDefinitionArgument,
+  defaultValue?: unknown,
+) => {
+  // `null` default means no value, same as the missing argument
+  if (defaultValue == null) {
+    return argument;
+  }
+  argument.default = defaultValue;
+  const defaultDescription = `Default: ${JSON.stringify(defaultValue)}`;
+  argument.description = argument.description
+    ? `${argument.description}\n${defaultDescription}`
+    : defaultDescription;
+  return argument;
 };
 
+/**
+ * Converts the default value of the argument or input field into a JSON value,
+ * e.g. enum values into their names
+ */
+const getDefaultValue = (input: {
+  type: GraphQLInputType;
+  defaultValue?: unknown;
+}): unknown => {
+  if (input.defaultValue === undefined) {
+    return undefined;
+  }
+  const valueNode = astFromValue(input.defaultValue, input.type);
+  return valueNode ? valueFromASTUntyped(valueNode) : undefined;
+};
+
+/**
+ * Converts the default value of the operation variable into a JSON value
+ */
+const getDefaultValueFromNode = (valueNode?: ValueNode): unknown =>
+  valueNode ? valueFromASTUntyped(valueNode) : undefined;
+
 const typeNodeProcessors = [
   {
     kind: Kind.LIST_TYPE,
-    toArgument: (type: ListTypeNode) => ({
+    toArgument: (type: ListTypeNode, scalars?: ScalarMappings) => ({
       type: "array",
-      items: typeNodeToArgumentDefinition(type.type),
+      items: typeNodeToArgumentDefinition(
+        unwrapNullableTypeNode(type.type).type,
+        scalars,
+      ),
     }),
   },
   {
     kind: Kind.NAMED_TYPE,
-    toArgument: (type: NamedTypeNode) => ({
-      type: scalarToTSTypesMap[type.name.value] || DEFAULT_TS_TYPE,
-    }),
+    toArgument: (type: NamedTypeNode, scalars?: ScalarMappings) =>
+      convertScalar(type.name.value, scalars),
   },
 ] as TypeNodeProcessor[];
 
@@ -58,13 +207,14 @@ const unwrapNullableTypeNode = (type: TypeNode) => {
 
 const typeNodeToArgumentDefinition = (
   type: TypeNode,
+  scalars?: ScalarMappings,
 ): FunctionDefinitionArgument => {
   const processor = typeNodeProcessors.find(({ kind }) => type.kind === kind);
   if (!processor) {
     throw new Error(`Unexpected type: ${type.kind}`);
   }
 
-  return processor.toArgument(type);
+  return processor.toArgument(type, scalars);
 };
 
 const unwrapType = (type: GraphQLOutputType): GraphQLOutputType => {
@@ -93,28 +243,75 @@ const unwrapRequiredType = (type: GraphQLInputType): UnwrapRequiredType => {
 const inputToArgumentProcessors = [
   {
     type: GraphQLScalarType,
-    toArgument: (type: GraphQLScalarType) => ({
-      type: scalarToTSTypesMap[type.name] || DEFAULT_TS_TYPE,
-    }),
+    toArgument: (type: GraphQLScalarType, options: TypeConversionOptions) =>
+      convertScalar(type.name, options.scalars),
   },
   {
     type: GraphQLEnumType,
     toArgument: (type: GraphQLEnumType) => ({
       type: "string",
-      enum: new Set(type.getValues().map((val) => val.name)),
+      enum: type.getValues().map((val) => val.name),
     }),
   },
   {
     type: GraphQLList,
-    toArgument: (type: GraphQLList<GraphQLInputType>) => ({
+    toArgument: (
+      type: GraphQLList<GraphQLInputType>,
+      options: TypeConversionOptions,
+    ) => ({
       type: "array",
-      items: convertToArgument(unwrapRequiredType(type.ofType).type),
+      items: convertToArgument(unwrapRequiredType(type.ofType).type, options),
     }),
   },
+  {
+    type: GraphQLInputObjectType,
+    toArgument: (
+      type: GraphQLInputObjectType,
+      options: TypeConversionOptions,
+    ) => {
+      const maxInputDepth = options.maxInputDepth ?? DEFAULT_MAX_INPUT_DEPTH;
+      if (maxInputDepth <= 0) {
+        // depth limit exceeded (e.g. recursive input type), any object is accepted
+        return { type: "object" };
+      }
+      const properties: Record<string, FunctionDefinitionArgument> = {};
+      const required: string[] = [];
+      for (const field of Object.values(type.getFields())) {
+        const unwrappedType = unwrapRequiredType(field.type);
+        const argument = addDefaultValue(
+          addDescription(
+            convertToArgument(unwrappedType.type, {
+              ...options,
+              maxInputDepth: maxInputDepth - 1,
+            }),
+            field.description?.trim(),
+          ),
+          getDefaultValue(field),
+        );
+        properties[field.name] = argument;
+        // fields with default values can be omitted
+        if (unwrappedType.required && argument.default === undefined) {
+          required.push(field.name);
+        }
+      }
+      return {
+        type: "object",
+        properties,
+        required,
+        additionalProperties: false,
+      };
+    },
+  },
 ] as InputToArgumentProcessor[];
 
+/**
+ * Converts GraphQL input type to the argument definition
+ * @param type input type without `NON_NULL` wrapper
+ * @param options depth of nested input objects and mappings of custom scalars
+ */
 const convertToArgument = (
   type: GraphQLInputType,
+  options: TypeConversionOptions = {},
 ): FunctionDefinitionArgument => {
   const processor = inputToArgumentProcessors.find(
     (p) => type instanceof p.type,
@@ -123,12 +320,17 @@ const convertToArgument = (
     throw new Error(`Unexpected type: ${typeof type}`);
   }
 
-  return processor.toArgument(type);
+  return processor.toArgument(type, options);
 };
 
 const typeConverter = {
   DEFAULT_TS_TYPE,
-  scalarToTSTypesMap,
+  DEFAULT_MAX_INPUT_DEPTH,
+  defaultScalarMappings,
+  addDescription,
+  addDefaultValue,
+  getDefaultValue,
+  getDefaultValueFromNode,
   unwrapNullableTypeNode,
   typeNodeToArgumentDefinition,
   unwrapType,
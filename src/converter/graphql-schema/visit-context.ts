@@ -1,5 +1,6 @@
-import { GraphQLObjectType } from "graphql/type";
+import { GraphQLCompositeType, GraphQLSchema } from "graphql/type";
 import { combineArgNameStrings } from "../../utils";
+import { ArgumentNames } from "./argument-naming";
 
 export class VisitContext {
   constructor(
@@ -7,13 +8,21 @@ export class VisitContext {
     public operationName: string,
     public prefix: string,
     public numArgs: number,
-    public path: GraphQLObjectType[],
+    public path: GraphQLCompositeType[],
+    // variables bound to the call context, shared between all nested contexts of the operation
+    public contextArguments: Record<string, string> = {},
+    // names of fields from the root field of the operation to the visited field
+    public fieldPath: string[] = [],
+    // parameter names, shared between all nested contexts of the operation
+    public argumentNames: ArgumentNames = new ArgumentNames(),
+    // used to find implementations of interfaces
+    public schema?: GraphQLSchema,
   ) {}
 
   public nested(
     schemaDefinition: string,
     fieldName: string,
-    type: GraphQLObjectType,
+    type: GraphQLCompositeType,
     additionalArgs: number,
   ) {
     return new VisitContext(
@@ -22,6 +31,10 @@ export class VisitContext {
       combineArgNameStrings(this.prefix, fieldName),
       this.numArgs + additionalArgs,
       [...this.path, type],
+      this.contextArguments,
+      [...this.fieldPath, fieldName],
+      this.argumentNames,
+      this.schema,
     );
   }
 }
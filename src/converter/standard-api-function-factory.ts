@@ -1,5 +1,5 @@
 import { ApiQuery, APIQueryExecutor, VoidApiQueryExecutor } from "../api";
-import { APIFunction, FunctionDefinition } from "../tool";
+import { APIFunction, APIFunctionConfig, FunctionDefinition } from "../tool";
 import { APIFunctionFactory } from "./api-function-factory";
 
 /**
@@ -10,18 +10,39 @@ export class StandardAPIFunctionFactory<TApiQuery extends ApiQuery = ApiQuery>
 {
   constructor(
     public readonly apiExecutor: APIQueryExecutor<TApiQuery> = new VoidApiQueryExecutor<TApiQuery>(),
+    // Config of all created functions. Use a function to configure functions individually
+    public readonly functionConfig:
+      | APIFunctionConfig
+      | ((
+          functionDef: FunctionDefinition,
+        ) => APIFunctionConfig | undefined) = {},
   ) {}
 
   /**
    * Creates an APIFunction instance using the provided function definition and API query.
    * @param functionDef The function definition.
    * @param query The API query.
+   * @param config Config of the function, overrides `functionConfig` of the factory.
+   * Its result processors are applied after the result processors of the factory.
    * @returns An APIFunction instance.
    */
   create(
     functionDef: FunctionDefinition,
     query: TApiQuery,
+    config?: APIFunctionConfig,
   ): APIFunction<TApiQuery> {
-    return new APIFunction<TApiQuery>(functionDef, query, this.apiExecutor);
+    const factoryConfig =
+      typeof this.functionConfig === "function"
+        ? this.functionConfig(functionDef)
+        : this.functionConfig;
+    const resultProcessors =
+      factoryConfig?.resultProcessors && config?.resultProcessors
+        ? [...factoryConfig.resultProcessors, ...config.resultProcessors]
+        : (config?.resultProcessors ?? factoryConfig?.resultProcessors);
+    return new APIFunction<TApiQuery>(functionDef, query, this.apiExecutor, {
+      ...factoryConfig,
+      ...config,
+      resultProcessors,
+    });
   }
 }
@@ -1,5 +1,6 @@
 export * from "./api";
 export * from "./chat";
 export * from "./converter";
+export * from "./observability";
 export * from "./tool";
 export * from "./utils";
@@ -1,4 +1,4 @@
-import { APIFunction } from "../../tool";
+import { APIFunction, ExecuteToolsOptions, toJsonSchema } from "../../tool";
 import type {
   ContentBlockParam,
   Message,
@@ -14,8 +14,8 @@ export const toAnthropicAiTools = (tools: APIFunction[]) => {
     name: t.function.name,
     description: t.function.description,
     input_schema: {
-      ...t.function.parameters,
-      type: t.function.parameters.type as "object",
+      ...toJsonSchema(t.function.parameters),
+      type: "object",
     },
   }));
 };
@@ -26,6 +26,7 @@ export const toAnthropicAiTools = (tools: APIFunction[]) => {
  * @param toolDefinitions what tools assistant was supplied with
  * @param toolSummarizationPrompt prompt used to force chatbot to provide summarized answer
  * based on provided tool call results (Default value is `Answer with these tool results`).
+ * @param options timeout, cancellation signal, metadata and limiter used for every tool call
  * @returns message with array of content blocks that contain tool call results and text message
  * with instruction to use these results to provide answer to the user's question
  * (It will return array with 1 message if multiple tool calls are disabled in chat config).
@@ -51,6 +52,7 @@ export const createAnthropicToolResult = async (
   message: Message,
   toolDefinitions: APIFunction[],
   toolSummarizationPrompt = "Answer with these tool results",
+  options?: ExecuteToolsOptions,
 ): Promise<MessageParam> => {
   const toolUseBlocks = message.content.filter(
     (block) => block.type === "tool_use",
@@ -61,6 +63,7 @@ export const createAnthropicToolResult = async (
       arguments: block.input as Record<string, unknown>,
     })),
     toolDefinitions,
+    options,
   );
   const resultBlocks = results.map<ContentBlockParam>((content, idx) => ({
     type: "tool_result",
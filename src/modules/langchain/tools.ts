@@ -1,10 +1,17 @@
-import { DynamicStructuredTool, tool, ToolParams } from "@langchain/core/tools";
-import type {
+import {
+  DynamicStructuredTool,
+  tool,
+  ToolParams,
+  ToolRunnableConfig,
+} from "@langchain/core/tools";
+import {
   APIFunction,
+  ArgumentRepairConfig,
   FunctionDefinitionArgument,
   FunctionDefinitionParameters,
+  repairArguments,
 } from "../../tool";
-import type { ApiQuery } from "../../api";
+import { ApiQuery, ApiQueryError } from "../../api";
 import { z, ZodSchema } from "zod";
 
 const zodSchemaProcessors = [
@@ -16,24 +23,41 @@ const zodSchemaProcessors = [
         arg.items ? jsonArgumentToZodSchema(arg.items, true) : z.undefined(),
       ),
   },
+  {
+    // Object schema
+    match: (arg: FunctionDefinitionArgument) => arg.type === "object",
+    toSchema: (arg: FunctionDefinitionArgument) => {
+      const schema = jsonPropertiesToZodSchema(
+        arg.properties ?? {},
+        arg.required ?? [],
+      );
+      return arg.additionalProperties === false
+        ? schema.strict()
+        : schema.passthrough();
+    },
+  },
   {
     // Enum schema
     match: (arg: FunctionDefinitionArgument) =>
-      arg.type === "string" && arg.enum && arg.enum.size > 0,
+      arg.type === "string" && arg.enum && arg.enum.length > 0,
     toSchema: (arg: FunctionDefinitionArgument) => {
-      const enumValues = Object.values(arg.enum || {}).map(String);
+      const enumValues = (arg.enum ?? [])
+        .filter((value) => value != null)
+        .map(String);
       return z.enum(enumValues as Parameters<typeof z.enum>[0]);
     },
   },
   {
     // Int schema
     match: (arg: FunctionDefinitionArgument) => arg.type === "integer",
-    toSchema: () => z.number().int(),
+    toSchema: (arg: FunctionDefinitionArgument) =>
+      withNumberRange(z.number().int(), arg),
   },
   {
     // Float schema
     match: (arg: FunctionDefinitionArgument) => arg.type === "number",
-    toSchema: () => z.number(),
+    toSchema: (arg: FunctionDefinitionArgument) =>
+      withNumberRange(z.number(), arg),
   },
   {
     // Boolean schema
@@ -41,12 +65,30 @@ const zodSchemaProcessors = [
     toSchema: () => z.boolean(),
   },
   {
-    // string schema
+    // Untyped schema, e.g. of `JSON` scalars
+    match: (arg: FunctionDefinitionArgument) => arg.type === undefined,
+    toSchema: () => z.any(),
+  },
+  {
+    // string schema, `format` is only a hint for the model
     match: (arg: FunctionDefinitionArgument) => arg.type === "string",
     toSchema: () => z.string(),
   },
 ];
 
+const withNumberRange = (
+  schema: z.ZodNumber,
+  arg: FunctionDefinitionArgument,
+) => {
+  if (arg.minimum !== undefined) {
+    schema = schema.min(arg.minimum);
+  }
+  if (arg.maximum !== undefined) {
+    schema = schema.max(arg.maximum);
+  }
+  return schema;
+};
+
 const jsonArgumentToZodSchema = (
   arg: FunctionDefinitionArgument,
   isRequired: boolean,
@@ -56,7 +98,12 @@ const jsonArgumentToZodSchema = (
   const toSchema = processor?.toSchema || (() => z.string());
   let schema: ZodSchema = toSchema(arg);
 
-  if (!isRequired) {
+  if (arg.nullable) {
+    schema = schema.nullable();
+  }
+  if (arg.default !== undefined) {
+    schema = schema.default(arg.default);
+  } else if (!isRequired) {
     schema = schema.optional();
   }
   if (arg.description) {
@@ -65,17 +112,55 @@ const jsonArgumentToZodSchema = (
   return schema;
 };
 
-export const jsonParamsToZodSchema = (params: FunctionDefinitionParameters) => {
+const jsonPropertiesToZodSchema = (
+  properties: Record<string, FunctionDefinitionArgument>,
+  required: string[],
+  argumentRepair?: ArgumentRepairConfig,
+) => {
   const fields: Record<string, ZodSchema> = {};
-  for (let key in params.properties) {
-    fields[key] = jsonArgumentToZodSchema(
-      params.properties[key],
-      params.required.includes(key),
+  for (let key in properties) {
+    const schema = jsonArgumentToZodSchema(
+      properties[key],
+      required.includes(key),
     );
+    fields[key] = argumentRepair
+      ? withArgumentRepair(schema, key, properties[key], argumentRepair)
+      : schema;
   }
   return z.object(fields);
 };
 
+/**
+ * Repairs the value before the zod validation. The JSON schema of the argument stays the same
+ */
+const withArgumentRepair = (
+  schema: ZodSchema,
+  key: string,
+  arg: FunctionDefinitionArgument,
+  argumentRepair: ArgumentRepairConfig,
+) =>
+  z.preprocess(
+    (value) =>
+      repairArguments(
+        { type: "object", properties: { [key]: arg }, required: [] },
+        { [key]: value },
+        // defaults are set by the zod schema
+        { ...argumentRepair, applyDefaults: false },
+      ).args[key],
+    schema,
+  );
+
+/**
+ * Converts function parameters to the zod schema
+ * @param params parameters of the function
+ * @param argumentRepair repairs applied to arguments before the zod validation, none by default
+ */
+export const jsonParamsToZodSchema = (
+  params: FunctionDefinitionParameters,
+  argumentRepair?: ArgumentRepairConfig,
+) =>
+  jsonPropertiesToZodSchema(params.properties, params.required, argumentRepair);
+
 /**
  * Convert `APIFunction[]` to array of tools supported by `@langchain/langgraph`
  */
@@ -94,10 +179,35 @@ export function toLangChainTools(
   if (Array.isArray(toolsInfo)) {
     return toolsInfo.map((t) => toLangChainTools(t, toolParams));
   }
-  return tool((input) => toolsInfo.validateAndExecute(input), {
+  const execute = async (
+    input: Record<string, unknown>,
+    config?: ToolRunnableConfig,
+  ) => {
+    try {
+      // stop calling the API when the run is cancelled
+      return await toolsInfo.validateAndExecute(input, {
+        signal: config?.signal,
+        metadata: config?.metadata,
+        context: config?.configurable,
+      });
+    } catch (error) {
+      // let the model see what API returned instead of failing the graph
+      if (error instanceof ApiQueryError) {
+        return APIFunction.createApiErrorMessage(toolsInfo.getName(), error);
+      }
+      throw error;
+    }
+  };
+  // LangChain validates arguments with the zod schema before `validateAndExecute`, so they are repaired by the schema
+  const argumentRepair =
+    toolsInfo.argumentRepair ?? APIFunction.defaultArgumentRepair;
+  return tool(execute, {
     ...toolParams,
     name: toolsInfo.function.name,
     description: toolsInfo.function.description,
-    schema: jsonParamsToZodSchema(toolsInfo.function.parameters),
+    schema: jsonParamsToZodSchema(
+      toolsInfo.function.parameters,
+      argumentRepair === true ? {} : argumentRepair || undefined,
+    ),
   });
 }
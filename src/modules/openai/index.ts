@@ -1,4 +1,9 @@
-import { APIFunction } from "../../tool";
+import {
+  APIFunction,
+  ExecuteToolsOptions,
+  JsonSchema,
+  toJsonSchemaFunctionDefinition,
+} from "../../tool";
 import type {
   ChatCompletionAssistantMessageParam,
   ChatCompletionTool,
@@ -6,23 +11,58 @@ import type {
 } from "openai/resources";
 
 /**
- * Convert `APIFunction[]` to array of tools supported by `openai`
+ * Checks that every value of the schema is typed and objects list all their properties as required,
+ * which is expected by the strict mode of `openai`
+ */
+const isStrictSchema = (schema: JsonSchema): boolean => {
+  if (!schema.type) {
+    return false;
+  }
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes("object")) {
+    const properties = Object.keys(schema.properties ?? {});
+    if (
+      !schema.properties ||
+      schema.additionalProperties !== false ||
+      properties.some((key) => !schema.required?.includes(key))
+    ) {
+      return false;
+    }
+  }
+  const nested = Object.values(schema.properties ?? {});
+  if (schema.items) {
+    nested.push(schema.items);
+  }
+  return nested.every(isStrictSchema);
+};
+
+/**
+ * Convert `APIFunction[]` to array of tools supported by `openai`.
+ * Tools with optional or free-form parameters (e.g. `JSON` scalars or input objects deeper than `maxInputDepth`)
+ * are not strict.
  */
 export const toOpenAiTools = (tools: APIFunction[]) => {
-  return tools.map<ChatCompletionTool>((t) => ({
-    type: "function",
-    function: {
-      ...t.function,
-      additionalProperties: false,
-    },
-    strict: true,
-  }));
+  return tools.map<ChatCompletionTool>((t) => {
+    const { parameters, ...functionDef } = toJsonSchemaFunctionDefinition(
+      t.function,
+    );
+    const schema = { ...parameters, additionalProperties: false };
+    return {
+      type: "function",
+      function: {
+        ...functionDef,
+        parameters: schema,
+        strict: isStrictSchema(schema),
+      },
+    };
+  });
 };
 
 /**
  * Executes tool calls provided in message and format response as an array of tool message
  * @param message Assistant's response message that contains a tool calls
  * @param toolDefinitions what tools assistant was supplied with
+ * @param options timeout, cancellation signal, metadata and limiter used for every tool call
  * @returns array of messages with tool call results that should to be added to the history
  * (It will return array with 1 message if multiple tool calls are disabled in chat config).
  * @example
@@ -44,6 +84,7 @@ export const toOpenAiTools = (tools: APIFunction[]) => {
 export const createOpenAiToolResults = async (
   message: ChatCompletionAssistantMessageParam,
   toolDefinitions: APIFunction[],
+  options?: ExecuteToolsOptions,
 ): Promise<ChatCompletionToolMessageParam[]> => {
   if (!message.tool_calls) {
     return [];
@@ -56,6 +97,7 @@ export const createOpenAiToolResults = async (
       arguments: JSON.parse(toolCall.function.arguments),
     })),
     toolDefinitions,
+    options,
   );
   const messages = results.map<ChatCompletionToolMessageParam>(
     (content, idx) => ({
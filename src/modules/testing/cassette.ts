@@ -0,0 +1,139 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { parse, print } from "graphql/language";
+import {
+  ApiQueryError,
+  ApiQueryErrorOptions,
+  ApiQueryErrorType,
+} from "../../api";
+import { stableStringify } from "../../utils";
+
+/**
+ * File with recorded API interactions
+ */
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteInteraction {
+  query: string;
+  variables?: Record<string, unknown>;
+  // result of the successful call as returned by the executor
+  response?: string;
+  // `ApiQueryError` thrown by the executor
+  error?: RecordedApiQueryError;
+}
+
+export interface RecordedApiQueryError extends ApiQueryErrorOptions {
+  type: ApiQueryErrorType;
+  message: string;
+}
+
+// `strict` requires exactly the same query text and variables.
+// `loose` ignores query formatting, `null` variables and variables that were not recorded
+export type CassetteMatching = "strict" | "loose";
+
+/**
+ * Error thrown when a call was not found in the cassette during replay
+ */
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly query: string,
+    public readonly variables?: Record<string, unknown>,
+    cassettePath?: string,
+  ) {
+    super(
+      `No recorded response in cassette${cassettePath ? ` [${cassettePath}]` : ""} ` +
+        `for query:\n${query}\nwith variables: ${stableStringify(variables ?? {})}\n` +
+        "Record the cassette again with RecordingApiQueryExecutor.",
+    );
+    this.name = "CassetteMissError";
+  }
+}
+
+export const createCassette = (): Cassette => ({
+  version: 1,
+  interactions: [],
+});
+
+/**
+ * Reads the cassette from the file
+ * @param path path to the cassette file
+ * @param ignoreMissing returns an empty cassette when the file does not exist
+ */
+export const loadCassette = async (
+  path: string,
+  ignoreMissing = false,
+): Promise<Cassette> => {
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as Cassette;
+  } catch (e) {
+    if (ignoreMissing && (e as NodeJS.ErrnoException).code === "ENOENT") {
+      return createCassette();
+    }
+    throw e;
+  }
+};
+
+/**
+ * Writes the cassette to the file, missing directories are created
+ */
+export const saveCassette = async (path: string, cassette: Cassette) => {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(cassette, null, 2) + "\n");
+};
+
+/**
+ * Finds the recorded interaction for the call
+ * @returns the first matching interaction or `undefined`
+ */
+export const findInteraction = (
+  cassette: Cassette,
+  query: string,
+  variables: Record<string, unknown> = {},
+  matching: CassetteMatching = "strict",
+) => {
+  if (matching === "strict") {
+    const key = stableStringify(variables);
+    return cassette.interactions.find(
+      (i) => i.query === query && stableStringify(i.variables ?? {}) === key,
+    );
+  }
+
+  const normalizedQuery = normalizeQuery(query);
+  return cassette.interactions.find(
+    (i) =>
+      normalizeQuery(i.query) === normalizedQuery &&
+      Object.entries(i.variables ?? {}).every(
+        ([name, value]) =>
+          value == null ||
+          stableStringify(value) === stableStringify(variables[name]),
+      ),
+  );
+};
+
+export const toRecordedError = (
+  error: ApiQueryError,
+): RecordedApiQueryError => ({
+  type: error.type,
+  message: error.message,
+  httpStatus: error.httpStatus,
+  errors: error.errors,
+  data: error.data,
+  retryable: error.retryable,
+});
+
+export const fromRecordedError = ({
+  type,
+  message,
+  ...options
+}: RecordedApiQueryError) => new ApiQueryError(type, message, options);
+
+const normalizeQuery = (query: string) => {
+  try {
+    return print(parse(query));
+  } catch {
+    return query.trim();
+  }
+};
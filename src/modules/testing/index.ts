@@ -0,0 +1,3 @@
+export * from "./cassette";
+export * from "./recording-api-query-executor";
+export * from "./replay-api-query-executor";
@@ -0,0 +1,108 @@
+import {
+  ApiQuery,
+  ApiQueryError,
+  ApiQueryExecutionOptions,
+  APIQueryExecutor,
+  DelegatingApiQueryExecutor,
+} from "../../api";
+import { stableStringify } from "../../utils";
+import {
+  Cassette,
+  CassetteInteraction,
+  createCassette,
+  loadCassette,
+  saveCassette,
+  toRecordedError,
+} from "./cassette";
+
+export interface RecordingApiQueryExecutorConfig {
+  // Path to the cassette file
+  cassettePath: string;
+  // `overwrite` starts with an empty cassette, `append` keeps interactions recorded before.
+  // `overwrite` by default
+  mode?: "overwrite" | "append";
+}
+
+/**
+ * Executor that forwards calls to the wrapped executor and writes
+ * query, variables and response (or `ApiQueryError`) of every call to a cassette file.
+ * The cassette is saved after every call and can be served back with `ReplayApiQueryExecutor`.
+ * @example
+ * const apiExecutor = new RecordingApiQueryExecutor(
+ *   new FetchApiQueryExecutor({ graphqlUri }),
+ *   { cassettePath: "tests/cassettes/agent.json" },
+ * );
+ */
+export class RecordingApiQueryExecutor<
+  TApiQuery extends ApiQuery = ApiQuery,
+> extends DelegatingApiQueryExecutor<TApiQuery> {
+  public readonly cassettePath: string;
+  protected readonly mode: "overwrite" | "append";
+  protected cassette?: Promise<Cassette>;
+  // writes are chained, so the file is never written concurrently
+  protected writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    delegate: APIQueryExecutor<TApiQuery>,
+    config: RecordingApiQueryExecutorConfig,
+  ) {
+    super(delegate);
+    this.cassettePath = config.cassettePath;
+    this.mode = config.mode ?? "overwrite";
+  }
+
+  async executeQuery(
+    query: TApiQuery,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    const interaction: CassetteInteraction = { query: query.query };
+    if (args && Object.keys(args).length > 0) {
+      interaction.variables = args;
+    }
+
+    try {
+      const response = await this.delegate.executeQuery(query, args, options);
+      await this.record({ ...interaction, response });
+      return response;
+    } catch (error) {
+      // only API errors are part of the API behavior, other errors are not recorded
+      if (error instanceof ApiQueryError) {
+        await this.record({ ...interaction, error: toRecordedError(error) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Waits until all recorded interactions are written to the cassette file
+   */
+  flush() {
+    return this.writing;
+  }
+
+  protected async record(interaction: CassetteInteraction) {
+    const cassette = await this.getCassette();
+    const key = getInteractionKey(interaction);
+    // the latest response of the same call replaces the previous one
+    cassette.interactions = cassette.interactions.filter(
+      (i) => getInteractionKey(i) !== key,
+    );
+    cassette.interactions.push(interaction);
+
+    const save = () => saveCassette(this.cassettePath, cassette);
+    this.writing = this.writing.then(save, save);
+    await this.writing;
+  }
+
+  protected getCassette() {
+    this.cassette ??=
+      this.mode === "append"
+        ? loadCassette(this.cassettePath, true)
+        : Promise.resolve(createCassette());
+    return this.cassette;
+  }
+}
+
+const getInteractionKey = ({ query, variables }: CassetteInteraction) =>
+  query + stableStringify(variables ?? {});
@@ -0,0 +1,110 @@
+import {
+  ApiQuery,
+  ApiQueryExecutionOptions,
+  APIQueryExecutor,
+  throwIfAborted,
+} from "../../api";
+import {
+  FunctionDefinition,
+  functionValidator,
+  ValidationResult,
+} from "../../tool";
+import {
+  Cassette,
+  CassetteMatching,
+  CassetteMissError,
+  findInteraction,
+  fromRecordedError,
+  loadCassette,
+} from "./cassette";
+
+export interface ReplayApiQueryExecutorConfig {
+  // Path to the cassette file recorded with `RecordingApiQueryExecutor`
+  cassettePath?: string;
+  // Cassette object, used instead of `cassettePath`
+  cassette?: Cassette;
+  // `strict` by default
+  matching?: CassetteMatching;
+  // `true` by default
+  enableValidation?: boolean;
+}
+
+/**
+ * Executor that serves responses recorded with `RecordingApiQueryExecutor`, without network access.
+ * Recorded API errors are thrown as `ApiQueryError`.
+ * @throws CassetteMissError when the call was not recorded
+ * @example
+ * const apiExecutor = new ReplayApiQueryExecutor({
+ *   cassettePath: "tests/cassettes/agent.json",
+ *   matching: "loose",
+ * });
+ */
+export class ReplayApiQueryExecutor<TApiQuery extends ApiQuery = ApiQuery>
+  implements APIQueryExecutor<TApiQuery>
+{
+  public enableValidation: boolean;
+  public readonly cassettePath?: string;
+  protected readonly matching: CassetteMatching;
+  protected cassette?: Promise<Cassette>;
+
+  constructor(config: ReplayApiQueryExecutorConfig) {
+    if (!config.cassette && !config.cassettePath) {
+      throw new Error("Either `cassette` or `cassettePath` has to be provided");
+    }
+    this.cassettePath = config.cassettePath;
+    this.matching = config.matching ?? "strict";
+    this.enableValidation = config.enableValidation ?? true;
+    if (config.cassette) {
+      this.cassette = Promise.resolve(config.cassette);
+    }
+  }
+
+  validate(
+    functionDef: FunctionDefinition,
+    args?: Record<string, unknown>,
+  ): ValidationResult {
+    if (!this.enableValidation) {
+      return ValidationResult.VALID;
+    }
+    return functionValidator.validate(functionDef, args);
+  }
+
+  async executeQuery(
+    query: TApiQuery,
+    args?: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    throwIfAborted(options?.signal);
+    const interaction = findInteraction(
+      await this.getCassette(),
+      query.query,
+      args,
+      this.matching,
+    );
+    if (!interaction) {
+      throw new CassetteMissError(query.query, args, this.cassettePath);
+    }
+    if (interaction.error) {
+      throw fromRecordedError(interaction.error);
+    }
+    return interaction.response ?? "null";
+  }
+
+  /**
+   * Loads the cassette file once. Failed reads are not cached, so the file is read again by the next call
+   */
+  protected getCassette(): Promise<Cassette> {
+    if (!this.cassette) {
+      if (!this.cassettePath) {
+        throw new Error(
+          "Either `cassette` or `cassettePath` has to be provided",
+        );
+      }
+      this.cassette = loadCassette(this.cassettePath).catch((e) => {
+        this.cassette = undefined;
+        throw e;
+      });
+    }
+    return this.cassette;
+  }
+}
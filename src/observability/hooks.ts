@@ -0,0 +1,58 @@
+import type { ArgumentChange } from "../tool/argument-repair";
+
+export interface ToolCallEvent {
+  // unique id of the call, the same for start and finish/fail events
+  id: string;
+  functionName: string;
+  arguments: Record<string, unknown>;
+  // metadata of the call, e.g. LangChain run metadata
+  metadata?: Record<string, unknown>;
+}
+
+export interface ToolCallFinishEvent extends ToolCallEvent {
+  durationMs: number;
+  // length of the result in characters
+  responseSize: number;
+}
+
+export interface ToolCallFailEvent extends ToolCallEvent {
+  durationMs: number;
+  error: unknown;
+}
+
+export interface ArgumentsRepairedEvent {
+  functionName: string;
+  // arguments provided by the LLM
+  arguments: Record<string, unknown>;
+  // arguments passed to the validation
+  repairedArguments: Record<string, unknown>;
+  changes: ArgumentChange[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface ConversionWarningEvent {
+  // name of the operation or field being converted
+  operationName: string;
+  message: string;
+  error?: unknown;
+}
+
+export interface PersistenceWriteEvent {
+  persistence: "api" | "tool";
+  durationMs: number;
+  // set when the message was not saved
+  error?: unknown;
+}
+
+/**
+ * Callbacks for tracing and metrics, e.g. to create OpenTelemetry spans.
+ * All callbacks are optional, errors thrown by them are logged and ignored.
+ */
+export interface ObservabilityHooks {
+  onToolCallStart?(event: ToolCallEvent): void;
+  onToolCallFinish?(event: ToolCallFinishEvent): void;
+  onToolCallFail?(event: ToolCallFailEvent): void;
+  onArgumentsRepaired?(event: ArgumentsRepairedEvent): void;
+  onConversionWarning?(event: ConversionWarningEvent): void;
+  onPersistenceWrite?(event: PersistenceWriteEvent): void;
+}
@@ -0,0 +1,3 @@
+export * from "./hooks";
+export * from "./logger";
+export * from "./observability";
@@ -0,0 +1,26 @@
+export interface Logger {
+  debug(message: string, ...meta: unknown[]): void;
+  info(message: string, ...meta: unknown[]): void;
+  warn(message: string, ...meta: unknown[]): void;
+  error(message: string, ...meta: unknown[]): void;
+}
+
+/**
+ * Logger that writes to `console`
+ */
+export const consoleLogger: Logger = {
+  debug: (message, ...meta) => console.debug(message, ...meta),
+  info: (message, ...meta) => console.info(message, ...meta),
+  warn: (message, ...meta) => console.warn(message, ...meta),
+  error: (message, ...meta) => console.error(message, ...meta),
+};
+
+/**
+ * Logger that ignores all messages
+ */
+export const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
@@ -0,0 +1,63 @@
+import { ObservabilityHooks } from "./hooks";
+import { Logger, noopLogger } from "./logger";
+
+export interface ObservabilityConfig {
+  // Nothing is logged by default, use `consoleLogger` to log to `console`
+  logger?: Logger;
+  // replaces all registered hooks
+  hooks?: ObservabilityHooks | ObservabilityHooks[];
+}
+
+type HookEvent<K extends keyof ObservabilityHooks> = Parameters<
+  NonNullable<ObservabilityHooks[K]>
+>[0];
+
+let hooks: ObservabilityHooks[] = [];
+
+/**
+ * Global logger and hooks used by converters, executors, tools and chat persistence.
+ * @example
+ * observability.configure({
+ *   logger: pinoLogger,
+ *   hooks: {
+ *     onToolCallFinish: ({ functionName, durationMs }) =>
+ *       histogram.record(durationMs, { functionName }),
+ *   },
+ * });
+ */
+export const observability = {
+  logger: noopLogger,
+
+  configure(config: ObservabilityConfig) {
+    if (config.logger) {
+      this.logger = config.logger;
+    }
+    if (config.hooks) {
+      hooks = Array.isArray(config.hooks) ? [...config.hooks] : [config.hooks];
+    }
+  },
+
+  /**
+   * Registers additional hooks
+   * @returns function that removes the hooks
+   */
+  addHooks(newHooks: ObservabilityHooks) {
+    hooks.push(newHooks);
+    return () => {
+      hooks = hooks.filter((h) => h !== newHooks);
+    };
+  },
+
+  /**
+   * Calls the hook of all registered hooks
+   */
+  emit<K extends keyof ObservabilityHooks>(name: K, event: HookEvent<K>) {
+    for (const hook of hooks) {
+      try {
+        (hook[name] as ((e: HookEvent<K>) => void) | undefined)?.(event);
+      } catch (e) {
+        this.logger.error(`Observability hook ${name} failed`, e);
+      }
+    }
+  },
+};
@@ -1,5 +1,21 @@
-import { ApiQuery, APIQueryExecutor } from "../api";
+import { v4 } from "uuid";
+import {
+  ApiQuery,
+  ApiQueryError,
+  ApiQueryExecutionOptions,
+  APIQueryExecutor,
+  ExecutionLimiter,
+} from "../api";
+import { observability } from "../observability";
+import {
+  applyDefaults,
+  ArgumentRepairConfig,
+  repairArguments,
+} from "./argument-repair";
 import { FunctionDefinition } from "./function-definition";
+import { toJsonSchemaFunctionDefinition } from "./json-schema";
+import { ResultProcessor } from "./result-processor";
+import { createResultProcessors, ResultRules } from "./result-rules";
 import { ValidationResult } from "./validation-result";
 
 export interface ToolCall {
@@ -7,6 +23,30 @@ export interface ToolCall {
   arguments: Record<string, unknown>;
 }
 
+export interface ExecuteToolsOptions extends ApiQueryExecutionOptions {
+  // Limits concurrency and rate of tool calls. Use a function to select a limiter per tool
+  limiter?:
+    | ExecutionLimiter
+    | ((toolCall: ToolCall) => ExecutionLimiter | undefined);
+}
+
+export interface APIFunctionConfig {
+  // Applied to results of `execute` and `validateAndExecute` in order.
+  // `APIFunction.defaultResultProcessors` are used when not set
+  resultProcessors?: ResultProcessor[];
+  // Rules of the result, used together with the result processors (or the default ones).
+  // `pick`, `drop` and `unwrapRootField` run before the result processors, `compaction` and `format` after them
+  resultRules?: ResultRules;
+  // Repairs arguments in `validateAndExecute` before validation, `true` enables all repairs.
+  // `APIFunction.defaultArgumentRepair` is used when not set
+  argumentRepair?: ArgumentRepairConfig | boolean;
+}
+
+export interface APIFunctionExecutionOptions extends ApiQueryExecutionOptions {
+  // Set to `false` to get the result of the API call without result processors. `true` by default
+  processResult?: boolean;
+}
+
 export class APIFunction<TApiQuery extends ApiQuery = ApiQuery> {
   public static readonly createInvalidCallMessage = (
     functionName: string,
@@ -16,43 +56,92 @@ export class APIFunction<TApiQuery extends ApiQuery = ApiQuery> {
     `but this has failed with the following error: ${errorMessage}. ` +
     "Please retry to call the function again. Send ONLY the JSON as a response.";
 
+  public static readonly createApiErrorMessage = (
+    functionName: string,
+    error: ApiQueryError,
+  ) =>
+    `Function \`${functionName}\` was called, but the API returned an error.\n` +
+    error.toToolMessage();
+
+  /**
+   * Executes tool calls with provided tool definitions.
+   * Errors returned by the API (`ApiQueryError`) are rendered as a tool result message,
+   * so the LLM can see what went wrong instead of the whole call failing.
+   */
   public static async executeTools(
     toolsToCall: ToolCall,
     toolDefinitions: APIFunction[],
+    options?: ExecuteToolsOptions,
   ): Promise<string>;
   public static async executeTools(
     toolsToCall: ToolCall[],
     toolDefinitions: APIFunction[],
+    options?: ExecuteToolsOptions,
   ): Promise<string[]>;
   public static async executeTools(
     toolsToCall: ToolCall[] | ToolCall,
     toolDefinitions: APIFunction[],
+    options: ExecuteToolsOptions = {},
   ) {
     const toolsMap = new Map(toolDefinitions.map((t) => [t.getName(), t]));
 
     if (!Array.isArray(toolsToCall)) {
       // execute single tool
       const apiFunction = toolsMap.get(toolsToCall.name);
-      const res = await apiFunction?.validateAndExecute(toolsToCall.arguments);
-      return res || "";
+      const { limiter, ...executionOptions } = options;
+      const toolLimiter =
+        typeof limiter === "function" ? limiter(toolsToCall) : limiter;
+      const execute = async () =>
+        apiFunction?.validateAndExecute(
+          toolsToCall.arguments,
+          executionOptions,
+        );
+      try {
+        const res = toolLimiter
+          ? await toolLimiter.schedule(execute, options.signal)
+          : await execute();
+        return res || "";
+      } catch (error) {
+        if (error instanceof ApiQueryError) {
+          return APIFunction.createApiErrorMessage(toolsToCall.name, error);
+        }
+        throw error;
+      }
     }
 
     return Promise.all(
       toolsToCall.map((toolCall) => {
-        return APIFunction.executeTools(toolCall, toolDefinitions);
+        return APIFunction.executeTools(toolCall, toolDefinitions, options);
       }) || [],
     );
   }
 
+  /**
+   * Result processors used by all functions that have no own `resultProcessors`
+   */
+  public static defaultResultProcessors: ResultProcessor[] = [];
+
+  /**
+   * Argument repair used by all functions that have no own `argumentRepair`, disabled by default
+   */
+  public static defaultArgumentRepair: ArgumentRepairConfig | boolean = false;
+
   readonly function: FunctionDefinition;
+  readonly resultProcessors?: ResultProcessor[];
+  readonly resultRules?: ResultRules;
+  readonly argumentRepair?: ArgumentRepairConfig | boolean;
 
   constructor(
     func: FunctionDefinition,
     public readonly apiQuery: TApiQuery,
     public readonly apiExecutor: APIQueryExecutor<TApiQuery>,
+    config: APIFunctionConfig = {},
   ) {
     // function is reserved word and cannot be used inc constructor
     this.function = func;
+    this.resultProcessors = config.resultProcessors;
+    this.resultRules = config.resultRules;
+    this.argumentRepair = config.argumentRepair;
     const validationResult = apiExecutor.validate(func);
     if (!validationResult.isValid()) {
       throw new Error(
@@ -69,30 +158,177 @@ export class APIFunction<TApiQuery extends ApiQuery = ApiQuery> {
     return this.apiExecutor.validate(this.function, argumentsNode);
   }
 
-  async execute(variables: Record<string, unknown> = {}): Promise<string> {
-    return this.apiExecutor.executeQuery(this.apiQuery, variables);
+  /**
+   * Executes the query and applies result processors to the result
+   */
+  async execute(
+    variables: Record<string, unknown> = {},
+    options: APIFunctionExecutionOptions = {},
+  ): Promise<string> {
+    const { processResult = true, ...executionOptions } = options;
+    return this.trace(variables, executionOptions, async () => {
+      const result = await this.executeQuery(variables, executionOptions);
+      return processResult ? this.processResult(result) : result;
+    });
+  }
+
+  protected executeQuery(
+    variables: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Promise<string> {
+    return this.apiExecutor.executeQuery(
+      this.apiQuery,
+      this.resolveContextArguments(variables, options),
+      options,
+    );
+  }
+
+  /**
+   * Reports start, finish and failure of the call to observability hooks
+   */
+  protected async trace(
+    variables: Record<string, unknown>,
+    options: ApiQueryExecutionOptions | undefined,
+    call: () => Promise<string>,
+  ): Promise<string> {
+    const event = {
+      id: v4(),
+      functionName: this.function.name,
+      arguments: variables,
+      metadata: options?.metadata,
+    };
+    const start = Date.now();
+    observability.emit("onToolCallStart", event);
+    try {
+      const result = await call();
+      observability.emit("onToolCallFinish", {
+        ...event,
+        durationMs: Date.now() - start,
+        responseSize: result.length,
+      });
+      return result;
+    } catch (error) {
+      observability.emit("onToolCallFail", {
+        ...event,
+        durationMs: Date.now() - start,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sets values of the variables bound to the call context.
+   * Values provided by the LLM for these variables are always overwritten.
+   * @throws Error if the value is missing in the call context
+   */
+  protected resolveContextArguments(
+    variables: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Record<string, unknown> {
+    const contextArguments = Object.entries(
+      this.apiQuery.contextArguments ?? {},
+    );
+    if (contextArguments.length === 0) {
+      return variables;
+    }
+
+    const resolvedVariables = { ...variables };
+    for (const [variableName, contextKey] of contextArguments) {
+      const value = options?.context?.[contextKey];
+      if (value === undefined) {
+        throw new Error(
+          `Function [${this.function.name}] requires \`${contextKey}\` in the call context`,
+        );
+      }
+      resolvedVariables[variableName] = value;
+    }
+    return resolvedVariables;
   }
 
+  /**
+   * Repairs the arguments if enabled and reports the changes to observability hooks.
+   * Default values of the schema are set for missing arguments even when repairs are disabled
+   */
+  protected repairArguments(
+    argumentsNode: Record<string, unknown>,
+    options?: ApiQueryExecutionOptions,
+  ): Record<string, unknown> {
+    const argumentRepair =
+      this.argumentRepair ?? APIFunction.defaultArgumentRepair;
+    if (!argumentRepair) {
+      return applyDefaults(this.function.parameters, argumentsNode).args;
+    }
+
+    const { args, changes } = repairArguments(
+      this.function.parameters,
+      argumentsNode,
+      argumentRepair === true ? {} : argumentRepair,
+    );
+    if (changes.length > 0) {
+      observability.emit("onArgumentsRepaired", {
+        functionName: this.function.name,
+        arguments: argumentsNode,
+        repairedArguments: args,
+        changes,
+        metadata: options?.metadata,
+      });
+    }
+    return args;
+  }
+
+  /**
+   * Repairs (if enabled) and validates the arguments, executes the query and applies result processors to the result
+   * @throws Error with a message for the LLM if arguments are invalid
+   */
   async validateAndExecute(
     argumentsNode: Record<string, unknown> = {},
+    options: APIFunctionExecutionOptions = {},
   ): Promise<string> {
-    const validationResult = this.validate(argumentsNode);
+    const { processResult = true, ...executionOptions } = options;
+    return this.trace(argumentsNode, executionOptions, async () => {
+      const args = this.repairArguments(argumentsNode, executionOptions);
+      const validationResult = this.validate(args);
+
+      if (validationResult.isValid()) {
+        const result = await this.executeQuery(args, executionOptions);
+        return processResult ? this.processResult(result) : result;
+      }
+      throw new Error(
+        APIFunction.createInvalidCallMessage(
+          this.function.name,
+          validationResult.errorMessage,
+        ),
+      );
+    });
+  }
 
-    if (validationResult.isValid()) {
-      return this.execute(argumentsNode);
+  /**
+   * Applies result processors of the function (or `APIFunction.defaultResultProcessors`) and result rules to the result
+   */
+  async processResult(result: string): Promise<string> {
+    const resultProcessors =
+      this.resultProcessors ?? APIFunction.defaultResultProcessors;
+    const processors = this.resultRules
+      ? createResultProcessors(this.resultRules, resultProcessors)
+      : resultProcessors;
+    let processedResult = result;
+    for (const processor of processors) {
+      processedResult = await processor(processedResult, {
+        functionName: this.function.name,
+        apiQuery: this.apiQuery,
+      });
     }
-    throw new Error(
-      APIFunction.createInvalidCallMessage(
-        this.function.name,
-        validationResult.errorMessage,
-      ),
-    );
+    return processedResult;
   }
 
-  async validateAndExecuteFromString(argsJson: string): Promise<string> {
+  async validateAndExecuteFromString(
+    argsJson: string,
+    options?: APIFunctionExecutionOptions,
+  ): Promise<string> {
     try {
       const parsedArguments = JSON.parse(argsJson);
-      return this.validateAndExecute(parsedArguments);
+      return this.validateAndExecute(parsedArguments, options);
     } catch (error) {
       return APIFunction.createInvalidCallMessage(
         this.function.name,
@@ -103,7 +339,7 @@ export class APIFunction<TApiQuery extends ApiQuery = ApiQuery> {
 
   public toJSON() {
     return {
-      function: this.function,
+      function: toJsonSchemaFunctionDefinition(this.function),
       apiQuery: this.apiQuery,
     };
   }
@@ -0,0 +1,274 @@
+import { getEditDistance } from "../utils";
+import {
+  FunctionDefinitionArgument,
+  FunctionDefinitionParameters,
+  JsonSchemaType,
+} from "./function-definition";
+
+export interface ArgumentRepairConfig {
+  // Converts values to the type of the schema, e.g. `"5"` to `5` or `"TRUE"` to `true`. `true` by default
+  coerceTypes?: boolean;
+  // Matches enum values case-insensitively and with small typos. `true` by default
+  matchEnums?: boolean;
+  // Wraps a single value into an array when an array is expected. `true` by default
+  wrapArrays?: boolean;
+  // Removes properties that are not defined in the schema. `true` by default
+  removeUnknownProperties?: boolean;
+  // Sets `default` values of the schema for missing properties. `true` by default
+  applyDefaults?: boolean;
+}
+
+export const enum ArgumentChangeType {
+  COERCED = "COERCED",
+  ENUM_MATCHED = "ENUM_MATCHED",
+  WRAPPED = "WRAPPED",
+  REMOVED = "REMOVED",
+  DEFAULTED = "DEFAULTED",
+}
+
+export interface ArgumentChange {
+  // path of the value, e.g. `filter.status`
+  path: string;
+  type: ArgumentChangeType;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ArgumentRepairResult {
+  args: Record<string, unknown>;
+  changes: ArgumentChange[];
+}
+
+const BOOLEAN_STRINGS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  yes: true,
+  no: false,
+  "1": true,
+  "0": false,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Repairs common mistakes of the LLM in arguments, so they pass the validation.
+ * Values that can not be repaired are left as they are and rejected by the validation later.
+ * @param parameters JSON schema of the function parameters
+ * @param args arguments provided by the LLM. They are not modified
+ * @param config repairs to apply, all are enabled by default
+ * @returns repaired arguments and the list of changes
+ */
+export const repairArguments = (
+  parameters: FunctionDefinitionParameters,
+  args: Record<string, unknown>,
+  config: ArgumentRepairConfig = {},
+): ArgumentRepairResult => {
+  const changes: ArgumentChange[] = [];
+  const repairedArgs = repairValue(parameters, args, "", {
+    ...config,
+    changes,
+  }) as Record<string, unknown>;
+  return { args: repairedArgs, changes };
+};
+
+/**
+ * Sets `default` values of the schema for missing arguments, without other repairs
+ * @param parameters JSON schema of the function parameters
+ * @param args arguments provided by the LLM. They are not modified
+ * @returns arguments with defaults and the list of changes
+ */
+export const applyDefaults = (
+  parameters: FunctionDefinitionParameters,
+  args: Record<string, unknown>,
+): ArgumentRepairResult =>
+  repairArguments(parameters, args, {
+    coerceTypes: false,
+    matchEnums: false,
+    wrapArrays: false,
+    removeUnknownProperties: false,
+    applyDefaults: true,
+  });
+
+interface RepairContext extends ArgumentRepairConfig {
+  changes: ArgumentChange[];
+}
+
+const repairValue = (
+  schema: FunctionDefinitionArgument,
+  value: unknown,
+  path: string,
+  context: RepairContext,
+): unknown => {
+  const { changes } = context;
+  if (
+    schema.type === "array" &&
+    value != null &&
+    !Array.isArray(value) &&
+    context.wrapArrays !== false
+  ) {
+    changes.push({ path, type: ArgumentChangeType.WRAPPED, from: value });
+    value = [value];
+  }
+
+  if (Array.isArray(value)) {
+    const itemSchema = schema.items;
+    return itemSchema
+      ? value.map((item, idx) =>
+          repairValue(itemSchema, item, `${path}[${idx}]`, context),
+        )
+      : value;
+  }
+  if (isPlainObject(value)) {
+    return schema.properties
+      ? repairObject(schema, value, path, context)
+      : value;
+  }
+
+  let repairedValue = value;
+  if (schema.type && context.coerceTypes !== false) {
+    repairedValue = coerceType(schema.type, value);
+    if (repairedValue !== value) {
+      changes.push({
+        path,
+        type: ArgumentChangeType.COERCED,
+        from: value,
+        to: repairedValue,
+      });
+    }
+  }
+  if (schema.enum && context.matchEnums !== false) {
+    const enumValue = matchEnum(schema.enum, repairedValue);
+    if (enumValue !== repairedValue) {
+      changes.push({
+        path,
+        type: ArgumentChangeType.ENUM_MATCHED,
+        from: repairedValue,
+        to: enumValue,
+      });
+    }
+    repairedValue = enumValue;
+  }
+  return repairedValue;
+};
+
+const repairObject = (
+  schema: FunctionDefinitionArgument,
+  value: Record<string, unknown>,
+  path: string,
+  context: RepairContext,
+) => {
+  const properties = schema.properties ?? {};
+  const repairedObject: Record<string, unknown> = {};
+  const join = (key: string) => (path ? `${path}.${key}` : key);
+
+  for (const [key, nestedValue] of Object.entries(value)) {
+    const propertySchema = properties[key];
+    if (!propertySchema) {
+      if (
+        context.removeUnknownProperties !== false &&
+        schema.additionalProperties !== true
+      ) {
+        context.changes.push({
+          path: join(key),
+          type: ArgumentChangeType.REMOVED,
+          from: nestedValue,
+        });
+      } else {
+        repairedObject[key] = nestedValue;
+      }
+      continue;
+    }
+    repairedObject[key] = repairValue(
+      propertySchema,
+      nestedValue,
+      join(key),
+      context,
+    );
+  }
+
+  if (context.applyDefaults !== false) {
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      const defaultValue = propertySchema.default;
+      if (repairedObject[key] === undefined && defaultValue !== undefined) {
+        repairedObject[key] = defaultValue;
+        context.changes.push({
+          path: join(key),
+          type: ArgumentChangeType.DEFAULTED,
+          to: defaultValue,
+        });
+      }
+    }
+  }
+  return repairedObject;
+};
+
+const coerceType = (type: JsonSchemaType, value: unknown): unknown => {
+  switch (type) {
+    case "integer":
+    case "number": {
+      if (typeof value === "string" && value.trim() !== "") {
+        const number = Number(value.trim());
+        if (
+          !Number.isNaN(number) &&
+          (type === "number" || Number.isInteger(number))
+        ) {
+          return number;
+        }
+      }
+      if (typeof value === "boolean") {
+        return value ? 1 : 0;
+      }
+      return value;
+    }
+    case "boolean": {
+      if (typeof value === "string") {
+        return BOOLEAN_STRINGS[value.trim().toLowerCase()] ?? value;
+      }
+      if (value === 0 || value === 1) {
+        return value === 1;
+      }
+      return value;
+    }
+    case "string":
+      return typeof value === "number" || typeof value === "boolean"
+        ? String(value)
+        : value;
+    default:
+      return value;
+  }
+};
+
+const normalizeEnumValue = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Finds the enum value ignoring case and separators, or the only closest value with a small typo
+ */
+const matchEnum = (enumValues: unknown[], value: unknown) => {
+  if (typeof value !== "string" || enumValues.includes(value)) {
+    return value;
+  }
+  const normalizedValue = normalizeEnumValue(value);
+  const stringValues = enumValues.filter(
+    (e): e is string => typeof e === "string",
+  );
+  const exactMatch = stringValues.find(
+    (e) => normalizeEnumValue(e) === normalizedValue,
+  );
+  if (exactMatch !== undefined) {
+    return exactMatch;
+  }
+
+  const maxDistance = Math.max(1, Math.floor(normalizedValue.length / 4));
+  const distances = stringValues.map((e) =>
+    getEditDistance(normalizeEnumValue(e), normalizedValue),
+  );
+  const minDistance = Math.min(...distances);
+  const closest = stringValues.filter(
+    (_, idx) => distances[idx] === minDistance,
+  );
+  return minDistance <= maxDistance && closest.length === 1
+    ? closest[0]
+    : value;
+};
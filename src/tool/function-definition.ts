@@ -1,15 +1,46 @@
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "array"
+  | "object"
+  | "null";
+
+/**
+ * Schema of a function argument, a subset of JSON Schema supported by LLM providers.
+ * Use `toJsonSchema` to get the standard JSON Schema, e.g. `nullable` is emitted as `type: [type, "null"]`.
+ */
 export interface FunctionDefinitionArgument {
-  type: string;
+  // Omitted when any value is accepted, e.g. for `JSON` scalars
+  type?: JsonSchemaType;
   description?: string;
+  // Allowed values
+  enum?: unknown[];
+  // Format of string values, e.g. `date-time` or `uuid`
+  format?: string;
+  // Value used when the argument is not provided
+  default?: unknown;
+  // Example values shown to the LLM
+  examples?: unknown[];
+  // Allows `null` in addition to `type`
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  // Schema of `array` items
   items?: FunctionDefinitionArgument;
-  enum?: Set<unknown>;
+  // Properties of `object`
+  properties?: Record<string, FunctionDefinitionArgument>;
+  required?: string[];
+  // Allows properties of `object` that are not listed in `properties`
+  additionalProperties?: boolean;
 }
 
 export interface FunctionDefinitionParameters {
-  type: string;
+  type: "object";
   properties: Record<string, FunctionDefinitionArgument>;
   required: string[];
-  [property: string]: unknown;
+  additionalProperties?: boolean;
 }
 /**
  * Definition of a chat function that can be invoked by the language model.
@@ -0,0 +1,81 @@
+import Ajv, { ValidateFunction } from "ajv";
+import { FunctionDefinition } from "./function-definition";
+import { toJsonSchema } from "./json-schema";
+import { ErrorType, ValidationResult } from "./validation-result";
+
+/**
+ * Validates arguments of function calls against `FunctionDefinition.parameters` using Ajv.
+ *
+ * Validators are compiled once per function definition and kept only while the definition is used,
+ * so it can be shared by all executors, including custom ones.
+ * @example
+ * validate(functionDef, args) {
+ *   return this.enableValidation
+ *     ? functionValidator.validate(functionDef, args)
+ *     : ValidationResult.VALID;
+ * }
+ */
+export class FunctionValidator {
+  protected readonly validators = new WeakMap<
+    FunctionDefinition,
+    ValidateFunction
+  >();
+
+  // `format` is a hint for the LLM, pass Ajv with formats (e.g. from `ajv-formats`) to validate it
+  constructor(
+    protected readonly ajv: Ajv = new Ajv({ validateFormats: false }),
+  ) {}
+
+  /**
+   * Validates the arguments
+   * @param functionDef function definition with JSON schema of the arguments
+   * @param args arguments of the call. Only the schema is checked when not provided
+   * @returns ValidationResult with `INVALID_ARGUMENT` error for invalid arguments
+   * and `INVALID_JSON` error for invalid schema
+   */
+  validate(
+    functionDef: FunctionDefinition,
+    args?: Record<string, unknown>,
+  ): ValidationResult {
+    try {
+      const isValidArgs = this.getValidator(functionDef);
+
+      if (args && !isValidArgs(args)) {
+        return new ValidationResult(
+          ErrorType.INVALID_ARGUMENT,
+          isValidArgs.errors
+            ?.map(
+              (e) =>
+                e.instancePath.split("/").filter(Boolean).join(".") +
+                " " +
+                e.message,
+            )
+            .join("\n"),
+        );
+      }
+      return ValidationResult.VALID;
+    } catch (e) {
+      return new ValidationResult(
+        ErrorType.INVALID_JSON,
+        e instanceof Error ? e.message : undefined,
+      );
+    }
+  }
+
+  protected getValidator(functionDef: FunctionDefinition) {
+    let validator = this.validators.get(functionDef);
+    if (!validator) {
+      const schema = toJsonSchema(functionDef.parameters);
+      validator = this.ajv.compile(schema);
+      // the validator is cached here, Ajv would keep the schema forever
+      this.ajv.removeSchema(schema);
+      this.validators.set(functionDef, validator);
+    }
+    return validator;
+  }
+}
+
+/**
+ * Validator shared by executors of the package
+ */
+export const functionValidator = new FunctionValidator();
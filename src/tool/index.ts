@@ -1,3 +1,10 @@
 export * from "./api-function";
+export * from "./argument-repair";
 export * from "./function-definition";
+export * from "./function-validator";
+export * from "./json-schema";
+export * from "./result-compaction";
+export * from "./result-processor";
+export * from "./result-projection";
+export * from "./result-rules";
 export * from "./validation-result";
@@ -0,0 +1,117 @@
+import {
+  FunctionDefinition,
+  FunctionDefinitionArgument,
+  FunctionDefinitionParameters,
+  JsonSchemaType,
+} from "./function-definition";
+
+/**
+ * Standard JSON Schema produced from `FunctionDefinitionArgument` or `FunctionDefinitionParameters`
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  format?: string;
+  default?: unknown;
+  examples?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface JsonSchemaFunctionDefinition {
+  name: string;
+  description?: string;
+  parameters: JsonSchema;
+}
+
+/**
+ * Serializes the argument (or function parameters) into standard JSON Schema.
+ * Keys are always emitted in the same order and unset keywords are omitted,
+ * so the output can be compared, cached and sent to any LLM provider.
+ * @example
+ * // returns { type: ["string", "null"], enum: ["ACTIVE", "RETIRED", null] }
+ * toJsonSchema({ type: "string", enum: ["ACTIVE", "RETIRED"], nullable: true })
+ */
+export const toJsonSchema = (
+  arg: FunctionDefinitionArgument | FunctionDefinitionParameters,
+): JsonSchema => {
+  const {
+    type,
+    description,
+    enum: enumValues,
+    format,
+    default: defaultValue,
+    examples,
+    nullable,
+    minimum,
+    maximum,
+    items,
+    properties,
+    required,
+    additionalProperties,
+  } = arg as FunctionDefinitionArgument;
+
+  const schema: JsonSchema = {};
+  // untyped schemas accept `null` as well
+  if (type) {
+    schema.type = nullable && type !== "null" ? [type, "null"] : type;
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (enumValues) {
+    schema.enum =
+      nullable && !enumValues.includes(null)
+        ? [...enumValues, null]
+        : [...enumValues];
+  }
+  if (format !== undefined) {
+    schema.format = format;
+  }
+  if (defaultValue !== undefined) {
+    schema.default = defaultValue;
+  }
+  if (examples) {
+    schema.examples = [...examples];
+  }
+  if (minimum !== undefined) {
+    schema.minimum = minimum;
+  }
+  if (maximum !== undefined) {
+    schema.maximum = maximum;
+  }
+  if (items) {
+    schema.items = toJsonSchema(items);
+  }
+  if (properties) {
+    schema.properties = Object.keys(properties).reduce<
+      Record<string, JsonSchema>
+    >((acc, key) => {
+      acc[key] = toJsonSchema(properties[key]);
+      return acc;
+    }, {});
+    // function parameters always list required properties
+    schema.required = [...(required ?? [])];
+  }
+  if (additionalProperties !== undefined) {
+    schema.additionalProperties = additionalProperties;
+  }
+  return schema;
+};
+
+/**
+ * Serializes the function definition with parameters in standard JSON Schema
+ */
+export const toJsonSchemaFunctionDefinition = (
+  functionDef: FunctionDefinition,
+): JsonSchemaFunctionDefinition => ({
+  name: functionDef.name,
+  // empty description is omitted
+  ...(functionDef.description ? { description: functionDef.description } : {}),
+  parameters: toJsonSchema(functionDef.parameters),
+});
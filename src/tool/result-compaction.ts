@@ -0,0 +1,225 @@
+import { toCsv, toMarkdownTable } from "../utils";
+import { ResultProcessor } from "./result-processor";
+
+export interface ResultCompactionConfig {
+  // Removes fields with `null` or empty string values, empty arrays are kept as they are meaningful (e.g. no orders).
+  // `true` by default
+  removeEmpty?: boolean;
+  // Arrays longer than this are truncated with a "N more items" note
+  maxArrayLength?: number;
+  // Maximum length of the result in characters
+  maxChars?: number;
+  // Maximum length of the result in tokens, counted with `countTokens`
+  maxTokens?: number;
+  // Estimates 4 characters per token by default
+  countTokens?: (text: string) => number;
+  // Renders lists of objects as CSV or Markdown tables. `json` by default
+  format?: "json" | "csv" | "markdown";
+}
+
+/**
+ * Rough token count used when no tokenizer is configured
+ */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Marks items removed from a truncated array
+ */
+class MoreItems {
+  constructor(public readonly count: number) {}
+
+  toJSON() {
+    return `... ${this.count} more items`;
+  }
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * Compacts the result of the API call to fit the budget of the model context.
+ * When the result is too long, arrays are shortened first and then the text is cut.
+ * Results that are not JSON are only cut.
+ * @param result result of the API call
+ * @param config compaction rules
+ * @returns compacted result
+ */
+export const compactResult = (
+  result: string,
+  config: ResultCompactionConfig = {},
+): string => {
+  const countTokens = config.countTokens ?? estimateTokens;
+  const fits = (text: string) =>
+    text.length <= (config.maxChars ?? Infinity) &&
+    (config.maxTokens == null || countTokens(text) <= config.maxTokens);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(result);
+  } catch {
+    return truncateText(result, fits);
+  }
+  if (config.removeEmpty ?? true) {
+    data = removeEmptyValues(data);
+  }
+
+  const render = (arrayLimit: number) =>
+    renderData(truncateArrays(data, arrayLimit), config.format ?? "json");
+
+  let arrayLimit = Math.min(
+    config.maxArrayLength ?? Infinity,
+    getLongestArrayLength(data),
+  );
+  let rendered = render(arrayLimit);
+  // shorten arrays until the result fits the budget
+  while (!fits(rendered) && arrayLimit > 1) {
+    arrayLimit = Math.floor(arrayLimit / 2);
+    rendered = render(arrayLimit);
+  }
+  return truncateText(rendered, fits);
+};
+
+/**
+ * Creates result processor that compacts results with `compactResult`
+ * @example
+ * const factory = new StandardAPIFunctionFactory(apiExecutor, {
+ *   resultProcessors: [createResultCompactor({ maxArrayLength: 20, maxTokens: 2000, format: "csv" })],
+ * });
+ */
+export const createResultCompactor =
+  (config: ResultCompactionConfig = {}): ResultProcessor =>
+  (result) =>
+    compactResult(result, config);
+
+const isPlainObject = (value: unknown): value is Row =>
+  value != null && typeof value === "object" && !Array.isArray(value);
+
+const isEmpty = (value: unknown) => value == null || value === "";
+
+const removeEmptyValues = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(removeEmptyValues);
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).reduce<Row>((acc, [key, nestedValue]) => {
+      const compactValue = removeEmptyValues(nestedValue);
+      if (!isEmpty(compactValue)) {
+        acc[key] = compactValue;
+      }
+      return acc;
+    }, {});
+  }
+  return value;
+};
+
+const getLongestArrayLength = (value: unknown): number => {
+  const nestedValues = Array.isArray(value)
+    ? value
+    : isPlainObject(value)
+      ? Object.values(value)
+      : [];
+  return nestedValues.reduce<number>(
+    (max, nestedValue) => Math.max(max, getLongestArrayLength(nestedValue)),
+    Array.isArray(value) ? value.length : 0,
+  );
+};
+
+const truncateArrays = (value: unknown, limit: number): unknown => {
+  if (Array.isArray(value)) {
+    const items = value
+      .slice(0, limit)
+      .map((item) => truncateArrays(item, limit));
+    return value.length > limit
+      ? [...items, new MoreItems(value.length - limit)]
+      : items;
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).reduce<Row>((acc, [key, nestedValue]) => {
+      acc[key] = truncateArrays(nestedValue, limit);
+      return acc;
+    }, {});
+  }
+  return value;
+};
+
+const truncateText = (text: string, fits: (text: string) => boolean) => {
+  let end = text.length;
+  let truncated = text;
+  while (end > 0 && !fits(truncated)) {
+    end = Math.floor(end * 0.9);
+    truncated = `${text.substring(0, end)}\n... [truncated ${text.length - end} characters]`;
+  }
+  return truncated;
+};
+
+const renderData = (
+  data: unknown,
+  format: "json" | "csv" | "markdown",
+): string => {
+  if (format === "json") {
+    return JSON.stringify(data);
+  }
+  return renderSections(data, "", format).join("\n");
+};
+
+/**
+ * Renders lists of objects as tables and other values as `path: JSON`
+ */
+const renderSections = (
+  value: unknown,
+  path: string,
+  format: "csv" | "markdown",
+): string[] => {
+  if (isTable(value)) {
+    const table = renderTable(value, format);
+    return [path ? `${path}:\n${table}` : table];
+  }
+  if (isPlainObject(value) && !(value instanceof MoreItems)) {
+    return Object.entries(value).flatMap(([key, nestedValue]) =>
+      renderSections(nestedValue, path ? `${path}.${key}` : key, format),
+    );
+  }
+  const json = JSON.stringify(value);
+  return [path ? `${path}: ${json}` : json];
+};
+
+const isTable = (value: unknown): value is Array<Row | MoreItems> =>
+  Array.isArray(value) &&
+  value.some((item) => isPlainObject(item) && !(item instanceof MoreItems)) &&
+  value.every(isPlainObject);
+
+const renderTable = (
+  items: Array<Row | MoreItems>,
+  format: "csv" | "markdown",
+) => {
+  const rows = items
+    .filter((item): item is Row => !(item instanceof MoreItems))
+    .map((item) => flattenRow(item));
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const values = rows.map((row) => columns.map((column) => row[column] ?? ""));
+
+  const table =
+    format === "csv"
+      ? toCsv(columns, values)
+      : toMarkdownTable(columns, values);
+  const moreItems = items.find((item) => item instanceof MoreItems);
+  return moreItems ? `${table}\n${moreItems.toJSON()}` : table;
+};
+
+/**
+ * Flattens nested objects into columns with dotted names, other values are rendered as JSON
+ */
+const flattenRow = (
+  row: Row,
+  prefix = "",
+  acc: Record<string, string> = {},
+) => {
+  for (const [key, value] of Object.entries(row)) {
+    const column = prefix + key;
+    if (isPlainObject(value) && !(value instanceof MoreItems)) {
+      flattenRow(value, `${column}.`, acc);
+    } else if (value != null) {
+      acc[column] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+  }
+  return acc;
+};
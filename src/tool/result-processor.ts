@@ -0,0 +1,15 @@
+import { ApiQuery } from "../api";
+
+export interface ResultProcessorContext {
+  functionName: string;
+  apiQuery: ApiQuery;
+}
+
+/**
+ * Transforms the result of the API call before it is returned to the model,
+ * e.g. compacts or re-renders it. Processors are applied in order, each one receives the output of the previous.
+ */
+export type ResultProcessor = (
+  result: string,
+  context: ResultProcessorContext,
+) => string | Promise<string>;
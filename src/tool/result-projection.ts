@@ -0,0 +1,134 @@
+type JsonObject = Record<string, unknown>;
+
+// matches every item of an array or every value of an object
+const WILDCARD = "*";
+
+const isPlainObject = (value: unknown): value is JsonObject =>
+  value != null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Parses JSON pointer (RFC 6901) into path segments
+ * @example
+ * // returns ["products", "0", "name"]
+ * parseJsonPointer("/products/0/name")
+ */
+export const parseJsonPointer = (pointer: string): string[] => {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON pointer [${pointer}], it must start with /`);
+  }
+  return pointer
+    .substring(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+};
+
+const matches = (segment: string, key: string | number) =>
+  segment === WILDCARD || segment === String(key);
+
+const pickSegments = (value: unknown, paths: string[][]): unknown => {
+  if (paths.some((path) => path.length === 0)) {
+    return value;
+  }
+  const pickKey = (key: string | number, nestedValue: unknown) => {
+    const nestedPaths = paths
+      .filter(([segment]) => matches(segment, key))
+      .map(([, ...rest]) => rest);
+    return nestedPaths.length > 0
+      ? pickSegments(nestedValue, nestedPaths)
+      : undefined;
+  };
+
+  if (Array.isArray(value)) {
+    return value
+      .map((item, idx) => pickKey(idx, item))
+      .filter((item) => item !== undefined);
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).reduce<JsonObject>((acc, [key, nested]) => {
+      const picked = pickKey(key, nested);
+      if (picked !== undefined) {
+        acc[key] = picked;
+      }
+      return acc;
+    }, {});
+  }
+  return undefined;
+};
+
+/**
+ * Keeps only values at the provided paths
+ * @param value parsed JSON
+ * @param pointers JSON pointers, `*` segment matches all array items or object values
+ * @example
+ * // returns { products: [{ name: "Drill" }] }
+ * pickPaths({ products: [{ id: 1, name: "Drill" }] }, ["/products/0/name"])
+ */
+export const pickPaths = (value: unknown, pointers: string[]) =>
+  pickSegments(value, pointers.map(parseJsonPointer)) ?? null;
+
+const dropSegments = (value: unknown, [segment, ...rest]: string[]) => {
+  if (Array.isArray(value)) {
+    if (rest.length > 0) {
+      value.forEach((item, idx) => {
+        if (matches(segment, idx)) {
+          dropSegments(item, rest);
+        }
+      });
+      return;
+    }
+    for (let idx = value.length - 1; idx >= 0; idx--) {
+      if (matches(segment, idx)) {
+        value.splice(idx, 1);
+      }
+    }
+  } else if (isPlainObject(value)) {
+    for (const key of Object.keys(value)) {
+      if (!matches(segment, key)) {
+        continue;
+      }
+      if (rest.length > 0) {
+        dropSegments(value[key], rest);
+      } else {
+        delete value[key];
+      }
+    }
+  }
+};
+
+/**
+ * Removes values at the provided paths. The value is modified in place
+ * @param value parsed JSON
+ * @param pointers JSON pointers, `*` segment matches all array items or object values
+ * @example
+ * // returns { products: [{ name: "Drill" }] }
+ * dropPaths({ products: [{ id: 1, name: "Drill" }] }, ["/products/0/id"])
+ */
+export const dropPaths = (value: unknown, pointers: string[]) => {
+  for (const pointer of pointers) {
+    const segments = parseJsonPointer(pointer);
+    if (segments.length === 0) {
+      return null;
+    }
+    dropSegments(value, segments);
+  }
+  return value;
+};
+
+/**
+ * Returns the value of the root field when the response has exactly one
+ * @example
+ * // returns [{ id: 1 }]
+ * unwrapRootField({ products: [{ id: 1 }] })
+ */
+export const unwrapRootField = (value: unknown) => {
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 1) {
+      return value[keys[0]];
+    }
+  }
+  return value;
+};
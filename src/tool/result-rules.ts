@@ -0,0 +1,91 @@
+import {
+  createResultCompactor,
+  ResultCompactionConfig,
+} from "./result-compaction";
+import { ResultProcessor } from "./result-processor";
+import { dropPaths, pickPaths, unwrapRootField } from "./result-projection";
+
+/**
+ * Rules for what the LLM sees in the result of a function.
+ * They are applied in the order of the fields, result processors of the function run between `unwrapRootField` and `compaction`.
+ */
+export interface ResultRules {
+  // JSON pointers of values to keep, e.g. `/products/*/name`. Pointers start at the root of the response data
+  pick?: string[];
+  // JSON pointers of values to remove
+  drop?: string[];
+  // Returns the value of the root field when the response has exactly one, e.g. `[...]` instead of `{ products: [...] }`
+  unwrapRootField?: boolean;
+  compaction?: ResultCompactionConfig;
+  // Custom formatter applied last
+  format?: ResultProcessor;
+}
+
+export interface ResultRulesConfig {
+  // Rules for all functions
+  default?: ResultRules;
+  // Rules by function name, they override the default rules field by field
+  functions?: Record<string, ResultRules>;
+}
+
+/**
+ * Creates processor that transforms the parsed JSON result. Results that are not JSON are not changed
+ */
+export const createJsonResultProcessor =
+  (transform: (data: unknown) => unknown): ResultProcessor =>
+  (result) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(result);
+    } catch {
+      return result;
+    }
+    return JSON.stringify(transform(data)) ?? "null";
+  };
+
+/**
+ * Creates result processors that apply the rules.
+ * The projection (`pick`, `drop` and `unwrapRootField`) runs first while the result is still JSON,
+ * then `processors`, `compaction` and `format`
+ * @param rules rules of the function
+ * @param processors other processors of the function, e.g. `APIFunction.defaultResultProcessors`
+ */
+export const createResultProcessors = (
+  rules: ResultRules,
+  processors: ResultProcessor[] = [],
+) => {
+  const { pick, drop } = rules;
+  const projection: ResultProcessor[] = [];
+  if (pick?.length) {
+    projection.push(createJsonResultProcessor((data) => pickPaths(data, pick)));
+  }
+  if (drop?.length) {
+    projection.push(createJsonResultProcessor((data) => dropPaths(data, drop)));
+  }
+  if (rules.unwrapRootField) {
+    projection.push(createJsonResultProcessor(unwrapRootField));
+  }
+  const output: ResultProcessor[] = [];
+  if (rules.compaction) {
+    output.push(createResultCompactor(rules.compaction));
+  }
+  if (rules.format) {
+    output.push(rules.format);
+  }
+  return [...projection, ...processors, ...output];
+};
+
+/**
+ * Merges default rules and rules of the function
+ * @returns rules or `undefined` when no rules are configured for the function
+ */
+export const getResultRules = (
+  config: ResultRulesConfig | undefined,
+  functionName: string,
+): ResultRules | undefined => {
+  const functionRules = config?.functions?.[functionName];
+  if (!config?.default && !functionRules) {
+    return undefined;
+  }
+  return { ...config.default, ...functionRules };
+};
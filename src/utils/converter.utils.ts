@@ -1,6 +1,10 @@
 import { Location } from "graphql/language";
 import { FunctionDefinitionParameters } from "../tool";
-import { UnwrapRequiredType, VisitContext } from "../converter";
+import {
+  TypeConversionOptions,
+  UnwrapRequiredType,
+  VisitContext,
+} from "../converter";
 import typeConverter from "../converter/graphql-schema/type-converter";
 import { printType } from "graphql/utilities";
 import {
@@ -105,23 +109,38 @@ export const processField = (
   argName: string,
   originalName: string,
   description?: string,
+  isContextArgument = false,
+  typeConversion?: TypeConversionOptions,
+  defaultValue?: unknown,
 ) => {
   let queryBody = "";
   let queryHeader = "";
-  const argDef = typeConverter.convertToArgument(unwrappedType.type);
-  argDef.description = description;
+  const argDef = typeConverter.addDefaultValue(
+    typeConverter.addDescription(
+      typeConverter.convertToArgument(unwrappedType.type, typeConversion),
+      description,
+    ),
+    defaultValue,
+  );
 
   if (numArgs > 0) {
     queryBody += ", ";
   }
-  if (ctx.numArgs + numArgs > 0) {
+  // the name of this argument is already created, so other names belong to previously declared variables
+  if (ctx.argumentNames.size > 1) {
     queryHeader += ", ";
   }
 
-  if (unwrappedType.required) {
-    params.required.push(argName);
+  if (isContextArgument) {
+    // value is taken from the call context, so the argument is not exposed to the LLM
+    ctx.contextArguments[argName] = originalName;
+  } else {
+    // arguments with default values can be omitted
+    if (unwrappedType.required && argDef.default === undefined) {
+      params.required.push(argName);
+    }
+    params.properties[argName] = argDef;
   }
-  params.properties[argName] = argDef;
 
   argName = "$" + argName;
   queryBody += originalName + ": " + argName;
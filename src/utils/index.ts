@@ -1,5 +1,10 @@
+export * from "./async.utils";
 export * from "./converter.utils";
 export * from "./function.utils";
+export * from "./json.utils";
+export * from "./operation.utils";
+export * from "./random.utils";
 export * from "./string.utils";
+export * from "./table.utils";
 export * from "./string.utils";
 export * from "./value-of";
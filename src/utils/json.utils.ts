@@ -0,0 +1,24 @@
+/**
+ * Serializes value to JSON with object keys sorted alphabetically,
+ * so equal objects always produce the same string regardless of key order.
+ * `undefined` values are omitted like in `JSON.stringify`.
+ * @example
+ * // returns {"a":1,"b":2}
+ * stableStringify({ b: 2, a: 1 })
+ */
+export const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, nestedValue) => {
+    if (
+      nestedValue &&
+      typeof nestedValue === "object" &&
+      !Array.isArray(nestedValue)
+    ) {
+      return Object.keys(nestedValue)
+        .sort()
+        .reduce<Record<string, unknown>>((acc, key) => {
+          acc[key] = nestedValue[key];
+          return acc;
+        }, {});
+    }
+    return nestedValue;
+  }) ?? "";
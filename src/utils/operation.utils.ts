@@ -0,0 +1,37 @@
+import { Kind, OperationTypeNode, parse } from "graphql/language";
+
+/**
+ * Returns the type of the first operation in the query.
+ * @param query GraphQL document with an operation
+ * @returns operation type or `undefined` if the query can not be parsed or contains no operations
+ * @example
+ * // returns "mutation"
+ * getOperationType("mutation Save($id: ID!) { save(id: $id) { id } }")
+ */
+export const getOperationType = (
+  query: string,
+): OperationTypeNode | undefined => {
+  try {
+    const document = parse(query);
+    const operation = document.definitions.find(
+      (definition) => definition.kind === Kind.OPERATION_DEFINITION,
+    );
+    return operation?.kind === Kind.OPERATION_DEFINITION
+      ? operation.operation
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks if the query is a mutation.
+ * Queries with unknown operation type (e.g. queries that can not be parsed) are considered mutations,
+ * so they are not retried, cached or batched.
+ */
+export const isMutation = (query: string) => {
+  const operationType = getOperationType(query);
+  return (
+    operationType === undefined || operationType === OperationTypeNode.MUTATION
+  );
+};
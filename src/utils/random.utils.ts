@@ -0,0 +1,29 @@
+/**
+ * Calculates 32-bit FNV-1a hash of the string
+ */
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Creates a pseudo-random number generator (mulberry32) that returns numbers in [0, 1).
+ * The same seed always produces the same sequence.
+ * @example
+ * const random = createRandom(42);
+ * const value = random();
+ */
+export const createRandom = (seed: number | string) => {
+  let state = typeof seed === "string" ? hashString(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
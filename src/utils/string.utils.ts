@@ -30,3 +30,89 @@ export const combineArgNameStrings = (...strings: string[]) => {
 export const combineOperationNameStrings = (...strings: string[]) => {
   return strings.filter(Boolean).join(OPERATION_NAME_SEPARATOR);
 };
+
+/**
+ * Calculates Levenshtein distance: the number of single character edits to turn one string into another
+ * @example
+ * // returns 1
+ * getEditDistance('ACTIVE', 'ACTIV')
+ */
+export const getEditDistance = (a: string, b: string) => {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previousRow = row;
+  }
+  return previousRow[b.length];
+};
+
+/**
+ * Splits names in any case into words
+ * @example
+ * // returns ['order', 'Id', 'v2']
+ * splitWords('order_Id-v2')
+ *
+ * // returns ['customer', 'Id']
+ * splitWords('customerId')
+ */
+export const splitWords = (value: string) =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+/**
+ * @param strings list of strings to be combined
+ * @returns words of the strings combined in camelCase
+ * @example
+ * // returns customerOrderId
+ * toCamelCase('customer', 'order_id')
+ */
+export const toCamelCase = (...strings: string[]) =>
+  strings
+    .flatMap(splitWords)
+    .map((word, idx) =>
+      idx === 0
+        ? word.toLowerCase()
+        : word.charAt(0).toUpperCase() + word.substring(1).toLowerCase(),
+    )
+    .join("");
+
+/**
+ * @param strings list of strings to be combined
+ * @returns words of the strings combined in snake_case
+ * @example
+ * // returns customer_order_id
+ * toSnakeCase('customer', 'orderId')
+ */
+export const toSnakeCase = (...strings: string[]) =>
+  strings
+    .flatMap(splitWords)
+    .map((word) => word.toLowerCase())
+    .join(ARG_NAME_SEPARATOR);
+
+/**
+ * Checks if the value matches the glob pattern, where `*` matches any characters
+ * @example
+ * // returns true
+ * matchesGlob('Order.customerId', 'Order.customer*')
+ *
+ * // returns false
+ * matchesGlob('Order.id', 'Customer.*')
+ */
+export const matchesGlob = (value: string, pattern: string) =>
+  new RegExp(
+    "^" +
+      pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*") +
+      "$",
+  ).test(value);
@@ -0,0 +1,32 @@
+/**
+ * Renders rows as CSV (RFC 4180). Values with commas, quotes or line breaks are quoted
+ * @param columns header of the table
+ * @param rows values in the order of columns
+ */
+export const toCsv = (columns: string[], rows: string[][]) =>
+  [columns, ...rows]
+    .map((row) =>
+      row
+        .map((value) =>
+          /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value,
+        )
+        .join(","),
+    )
+    .join("\n");
+
+/**
+ * Renders rows as a GitHub-flavored Markdown table
+ * @param columns header of the table
+ * @param rows values in the order of columns
+ */
+export const toMarkdownTable = (columns: string[], rows: string[][]) => {
+  const renderRow = (row: string[]) =>
+    `| ${row
+      .map((value) => value.replace(/\|/g, "\\|").replace(/\r?\n/g, " "))
+      .join(" | ")} |`;
+  return [
+    renderRow(columns),
+    renderRow(columns.map(() => "---")),
+    ...rows.map(renderRow),
+  ].join("\n");
+};
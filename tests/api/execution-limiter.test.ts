@@ -0,0 +1,84 @@
+import { describe, expect, test } from "@jest/globals";
+import { APIFunction, ExecutionLimiter } from "../../src";
+import { MockAPIExecutor } from "../mocks/mock-api-executor";
+import { sleep } from "../../src/utils";
+
+describe("ExecutionLimiter", () => {
+  test("should not run more tasks than max concurrency", async () => {
+    const limiter = new ExecutionLimiter({ maxConcurrency: 2 });
+    let running = 0;
+    let maxRunning = 0;
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(5);
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(task)));
+
+    expect(maxRunning).toBe(2);
+  });
+
+  test("should limit the rate of started tasks", async () => {
+    const limiter = new ExecutionLimiter({
+      maxPerInterval: 2,
+      intervalMs: 50,
+    });
+    const startedAt: number[] = [];
+    const start = Date.now();
+
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        limiter.schedule(async () => startedAt.push(Date.now() - start)),
+      ),
+    );
+
+    // first 2 tasks start immediately, others wait for refilled tokens
+    expect(startedAt[1]).toBeLessThan(20);
+    expect(startedAt[3]).toBeGreaterThanOrEqual(40);
+  });
+
+  test("should remove aborted tasks from the queue", async () => {
+    const limiter = new ExecutionLimiter({ maxConcurrency: 1 });
+    const controller = new AbortController();
+
+    const first = limiter.schedule(() => sleep(10));
+    const second = limiter.schedule(() => sleep(10), controller.signal);
+    controller.abort(new Error("Cancelled by user"));
+
+    await expect(second).rejects.toThrow("Cancelled by user");
+    await first;
+    expect(limiter.pending).toBe(0);
+  });
+
+  test("should limit tool calls in executeTools", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const apiExecutor = new MockAPIExecutor(() => "{}");
+    apiExecutor.executeQuery = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(5);
+      running--;
+      return "{}";
+    };
+    const apiFunction = new APIFunction(
+      {
+        name: "test",
+        parameters: { type: "object", properties: {}, required: [] },
+      },
+      { query: "query test { test }" },
+      apiExecutor,
+    );
+
+    const results = await APIFunction.executeTools(
+      Array.from({ length: 5 }, () => ({ name: "test", arguments: {} })),
+      [apiFunction],
+      { limiter: new ExecutionLimiter({ maxConcurrency: 1 }) },
+    );
+
+    expect(results).toHaveLength(5);
+    expect(maxRunning).toBe(1);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, expect, jest, test } from "@jest/globals";
+import {
+  ApiQueryError,
+  APIFunction,
+  BatchingApiQueryExecutor,
+  mergeGraphQLRequests,
+  RetryApiQueryExecutor,
+  splitBatchedResponse,
+} from "../../../src";
+import { MockAPIExecutor } from "../../mocks/mock-api-executor";
+
+describe("mergeGraphQLRequests", () => {
+  test("should alias root fields and rename variables", () => {
+    const merged = mergeGraphQLRequests([
+      {
+        query: "query A($id: ID!) { product(id: $id) { id } }",
+        variables: { id: "1", unused: true },
+      },
+      {
+        query: "query B($id: ID!) { items: product(id: $id) { name } }",
+        variables: { id: "2" },
+      },
+    ]);
+
+    expect(merged.query).toBe(
+      "query BatchedQuery($b0_id: ID!, $b1_id: ID!) {\n" +
+        "  b0_product: product(id: $b0_id) {\n    id\n  }\n" +
+        "  b1_items: product(id: $b1_id) {\n    name\n  }\n}",
+    );
+    expect(merged.variables).toEqual({ b0_id: "1", b1_id: "2" });
+  });
+
+  test("should reject mutations", () => {
+    expect(() =>
+      mergeGraphQLRequests([{ query: "mutation A { save { id } }" }]),
+    ).toThrow("Query can not be merged");
+  });
+});
+
+describe("splitBatchedResponse", () => {
+  test("should split data and errors by alias prefix", () => {
+    const responses = splitBatchedResponse(
+      {
+        data: { b0_product: { id: 1 }, b1_items: null },
+        errors: [{ message: "Not found", path: ["b1_items", 0] }],
+      },
+      2,
+    );
+
+    expect(responses).toEqual([
+      { data: { product: { id: 1 } } },
+      {
+        data: { items: null },
+        errors: [{ message: "Not found", path: ["items", 0] }],
+      },
+    ]);
+  });
+});
+
+describe("BatchingApiQueryExecutor", () => {
+  const createFunction = (
+    name: string,
+    query: string,
+    apiExecutor: BatchingApiQueryExecutor,
+  ) =>
+    new APIFunction(
+      {
+        name,
+        parameters: {
+          type: "object",
+          properties: { id: { type: "string" } },
+          required: [],
+        },
+      },
+      { query },
+      apiExecutor,
+    );
+
+  test("should execute parallel tool calls in a single request", async () => {
+    const mockExecutor = MockAPIExecutor.create(
+      JSON.stringify({ b0_product: { id: "1" }, b1_orders: [{ id: "2" }] }),
+    );
+    const executeQuery = jest.spyOn(mockExecutor, "executeQuery");
+    const apiExecutor = new BatchingApiQueryExecutor(mockExecutor);
+    const tools = [
+      createFunction(
+        "product",
+        "query product($id: ID) { product(id: $id) { id } }",
+        apiExecutor,
+      ),
+      createFunction("orders", "query orders { orders { id } }", apiExecutor),
+    ];
+
+    const results = await APIFunction.executeTools(
+      [
+        { name: "product", arguments: { id: "1" } },
+        { name: "orders", arguments: {} },
+      ],
+      tools,
+    );
+
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+    expect(executeQuery.mock.calls[0][1]).toEqual({ b0_id: "1" });
+    expect(results.map((r) => JSON.parse(r))).toEqual([
+      { product: { id: "1" } },
+      { orders: [{ id: "2" }] },
+    ]);
+  });
+
+  test("should reject only queries with errors", async () => {
+    const mockExecutor = new MockAPIExecutor(() => {
+      throw ApiQueryError.fromGraphQLResponse({
+        data: { b0_product: { id: "1" }, b1_orders: null },
+        errors: [{ message: "Access denied", path: ["b1_orders"] }],
+      });
+    });
+    const apiExecutor = new BatchingApiQueryExecutor(mockExecutor);
+
+    const results = await Promise.allSettled([
+      apiExecutor.executeQuery({ query: "query { product { id } }" }),
+      apiExecutor.executeQuery({ query: "query { orders { id } }" }),
+    ]);
+
+    expect(results[0]).toEqual({
+      status: "fulfilled",
+      value: JSON.stringify({ product: { id: "1" } }),
+    });
+    expect(results[1].status).toBe("rejected");
+    const error = (results[1] as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(ApiQueryError);
+    expect(error.errors).toEqual([
+      { message: "Access denied", path: ["orders"] },
+    ]);
+  });
+
+  test("should reject all queries when an error nulls the whole data", async () => {
+    const error = ApiQueryError.fromGraphQLResponse({
+      data: null,
+      errors: [{ message: "Not found", path: ["b1_order"] }],
+    });
+    const apiExecutor = new BatchingApiQueryExecutor(
+      new MockAPIExecutor(() => {
+        throw error;
+      }),
+    );
+
+    const results = await Promise.allSettled([
+      apiExecutor.executeQuery({ query: "query { product { id } }" }),
+      apiExecutor.executeQuery({ query: "query { order { id } }" }),
+    ]);
+
+    expect(results[0]).toEqual({ status: "rejected", reason: error });
+    expect(results[1].status).toBe("rejected");
+    expect((results[1] as PromiseRejectedResult).reason.errors).toEqual([
+      { message: "Not found", path: ["order"] },
+    ]);
+  });
+
+  test("should send array batches through wrapping executors", async () => {
+    const mockExecutor = MockAPIExecutor.create("{}");
+    const executeBatch = jest.fn(async (items: unknown[]) =>
+      items.map((_, idx) => `{"idx":${idx}}`),
+    );
+    const apiExecutor = new BatchingApiQueryExecutor(
+      new RetryApiQueryExecutor(Object.assign(mockExecutor, { executeBatch })),
+      { mode: "array" },
+    );
+
+    const results = await Promise.all([
+      apiExecutor.executeQuery({ query: "query { product { id } }" }),
+      apiExecutor.executeQuery({ query: "query { orders { id } }" }),
+    ]);
+
+    expect(executeBatch).toHaveBeenCalledTimes(1);
+    expect(results).toEqual(['{"idx":0}', '{"idx":1}']);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, jest, test } from "@jest/globals";
+import { CachingApiQueryExecutor, InMemoryCacheStore } from "../../../src";
+import { MockAPIExecutor } from "../../mocks/mock-api-executor";
+
+describe("CachingApiQueryExecutor", () => {
+  const query = { query: "query Test($id: ID, $limit: Int) { test { id } }" };
+  const mutation = { query: "mutation Save { save { id } }" };
+
+  const createMockExecutor = () => {
+    const mockExecutor = MockAPIExecutor.create("{}");
+    const executeQuery = jest.spyOn(mockExecutor, "executeQuery");
+    return { mockExecutor, executeQuery };
+  };
+
+  test("should return cached result for the same query and variables", async () => {
+    const { mockExecutor, executeQuery } = createMockExecutor();
+    const apiExecutor = new CachingApiQueryExecutor(mockExecutor);
+
+    await apiExecutor.executeQuery(query, { id: "1", limit: 5 });
+    const result = await apiExecutor.executeQuery(query, { limit: 5, id: "1" });
+    await apiExecutor.executeQuery(query, { id: "2", limit: 5 });
+
+    expect(result).toBe("{}");
+    expect(executeQuery).toHaveBeenCalledTimes(2);
+  });
+
+  test("should not cache mutations", async () => {
+    const { mockExecutor, executeQuery } = createMockExecutor();
+    const apiExecutor = new CachingApiQueryExecutor(mockExecutor);
+
+    await apiExecutor.executeQuery(mutation);
+    await apiExecutor.executeQuery(mutation);
+
+    expect(executeQuery).toHaveBeenCalledTimes(2);
+  });
+
+  test("should not cache queries with unknown operation type", async () => {
+    const { mockExecutor, executeQuery } = createMockExecutor();
+    const apiExecutor = new CachingApiQueryExecutor(mockExecutor);
+    const malformedQuery = { query: "query Test { test {" };
+
+    await apiExecutor.executeQuery(malformedQuery);
+    await apiExecutor.executeQuery(malformedQuery);
+
+    expect(executeQuery).toHaveBeenCalledTimes(2);
+  });
+
+  test("should not cache queries with zero ttl", async () => {
+    const { mockExecutor, executeQuery } = createMockExecutor();
+    const apiExecutor = new CachingApiQueryExecutor(mockExecutor, {
+      ttlMs: (q) => (q.query.includes("Test") ? 0 : 1000),
+    });
+
+    await apiExecutor.executeQuery(query);
+    await apiExecutor.executeQuery(query);
+
+    expect(executeQuery).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("InMemoryCacheStore", () => {
+  test("should evict least recently used entries", () => {
+    const store = new InMemoryCacheStore({ maxEntries: 2 });
+
+    store.set("a", "1", 1000);
+    store.set("b", "2", 1000);
+    store.get("a");
+    store.set("c", "3", 1000);
+
+    expect(store.size).toBe(2);
+    expect(store.get("a")).toBe("1");
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBe("3");
+  });
+
+  test("should not return expired entries", () => {
+    const store = new InMemoryCacheStore();
+
+    store.set("a", "1", 0);
+
+    expect(store.get("a")).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
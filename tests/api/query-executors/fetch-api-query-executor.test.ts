@@ -1,8 +1,13 @@
-import { describe, expect, test } from "@jest/globals";
+import { afterEach, describe, expect, jest, test } from "@jest/globals";
 import {
+  ApiQueryError,
+  ApiQueryErrorType,
+  createPersistedQueryManifest,
   ErrorType,
   FetchApiQueryExecutor,
   FunctionDefinition,
+  HeadersProviderContext,
+  sha256,
 } from "../../../src";
 
 describe("FetchApiQueryExecutor", () => {
@@ -23,7 +28,7 @@ describe("FetchApiQueryExecutor", () => {
   const invalidFunctionDefinitionMock: FunctionDefinition = {
     name: "test function",
     parameters: {
-      type: "some custom type",
+      type: "some custom type" as "object",
       required: ["id"],
       properties: {},
     },
@@ -64,3 +69,264 @@ describe("FetchApiQueryExecutor", () => {
     expect(result.errorMessage).toBe("id must be string");
   });
 });
+
+describe("FetchApiQueryExecutor.executeQuery", () => {
+  const apiExecutor = new FetchApiQueryExecutor({ graphqlUri: "http://api" });
+  const query = { query: "query Test { test { id } }" };
+  const originalFetch = global.fetch;
+
+  const mockFetch = (status: number, body: unknown) => {
+    global.fetch = jest.fn(() =>
+      Promise.resolve(
+        new Response(JSON.stringify(body), {
+          status,
+          headers: { "Content-Type": "application/json" },
+        }),
+      ),
+    ) as typeof fetch;
+  };
+
+  // fetch that never responds, but respects abort signal
+  const mockPendingFetch = () => {
+    global.fetch = jest.fn(
+      (_input: unknown, init?: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          const abort = () => reject(new DOMException("Aborted", "AbortError"));
+          if (init?.signal?.aborted) {
+            abort();
+          }
+          init?.signal?.addEventListener("abort", abort);
+        }),
+    ) as typeof fetch;
+  };
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("should return data of successful response", async () => {
+    mockFetch(200, { data: { test: { id: 1 } } });
+
+    const result = await apiExecutor.executeQuery(query);
+
+    expect(JSON.parse(result)).toEqual({ test: { id: 1 } });
+  });
+
+  test("should throw ApiQueryError with partial data on GraphQL errors", async () => {
+    mockFetch(200, {
+      data: { test: null, other: { id: 2 } },
+      errors: [
+        {
+          message: "Not found",
+          path: ["test"],
+          extensions: { code: "NOT_FOUND" },
+        },
+      ],
+    });
+
+    const error = await apiExecutor.executeQuery(query).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiQueryError);
+    expect(error.type).toBe(ApiQueryErrorType.GRAPHQL);
+    expect(error.httpStatus).toBe(200);
+    expect(error.errors[0].path).toEqual(["test"]);
+    expect(error.hasPartialData()).toBeTruthy();
+    expect(error.retryable).toBeFalsy();
+    expect(error.toToolMessage()).toContain(
+      "- Not found (at test) [NOT_FOUND]",
+    );
+  });
+
+  test("should throw retryable ApiQueryError on HTTP 503", async () => {
+    mockFetch(503, { errors: [{ message: "Service unavailable" }] });
+
+    const error = await apiExecutor.executeQuery(query).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiQueryError);
+    expect(error.type).toBe(ApiQueryErrorType.HTTP);
+    expect(error.httpStatus).toBe(503);
+    expect(error.errors).toHaveLength(1);
+    expect(error.retryable).toBeTruthy();
+  });
+
+  test("should throw retryable ApiQueryError when API is unreachable", async () => {
+    global.fetch = jest.fn(() =>
+      Promise.reject(new TypeError("fetch failed")),
+    ) as typeof fetch;
+
+    const error = await apiExecutor.executeQuery(query).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiQueryError);
+    expect(error.type).toBe(ApiQueryErrorType.NETWORK);
+    expect(error.retryable).toBeTruthy();
+  });
+
+  test("should send array batch and return result per query", async () => {
+    mockFetch(200, [
+      { data: { test: { id: 1 } } },
+      { data: null, errors: [{ message: "Not found" }] },
+    ]);
+
+    const results = await apiExecutor.executeBatch([
+      { query, args: { id: 1 } },
+      { query, args: { id: 2 } },
+    ]);
+
+    const requestBody = JSON.parse(
+      (global.fetch as jest.Mock<typeof fetch>).mock.calls[0][1]
+        ?.body as string,
+    );
+    expect(requestBody).toEqual([
+      { query: query.query, variables: { id: 1 } },
+      { query: query.query, variables: { id: 2 } },
+    ]);
+    expect(results[0]).toBe(JSON.stringify({ test: { id: 1 } }));
+    expect(results[1]).toBeInstanceOf(ApiQueryError);
+  });
+
+  test("should throw retryable timeout error when API is too slow", async () => {
+    mockPendingFetch();
+
+    const error = await apiExecutor
+      .executeQuery(query, undefined, { timeout: 10 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiQueryError);
+    expect(error.type).toBe(ApiQueryErrorType.TIMEOUT);
+    expect(error.retryable).toBeTruthy();
+  });
+
+  test("should stop the call when signal is aborted", async () => {
+    mockPendingFetch();
+    const controller = new AbortController();
+
+    const promise = apiExecutor.executeQuery(query, undefined, {
+      signal: controller.signal,
+      timeout: 1000,
+    });
+    controller.abort(new Error("Cancelled by user"));
+
+    await expect(promise).rejects.toThrow("Cancelled by user");
+  });
+});
+
+describe("FetchApiQueryExecutor headers", () => {
+  const query = { query: "query Test { test { id } }" };
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("should request headers from provider for every call", async () => {
+    const fetchMock = jest.fn((_input: unknown, _init?: RequestInit) =>
+      Promise.resolve(new Response(JSON.stringify({ data: {} }))),
+    );
+    global.fetch = fetchMock as typeof fetch;
+    const headersProvider = jest.fn((ctx: HeadersProviderContext) => ({
+      Authorization: `Bearer ${ctx.context?.userId}`,
+    }));
+    const apiExecutor = new FetchApiQueryExecutor({
+      graphqlUri: "http://api",
+      headers: headersProvider,
+    });
+
+    await apiExecutor.executeQuery(query, {}, { context: { userId: "a" } });
+    await apiExecutor.executeQuery(query, {}, { context: { userId: "b" } });
+
+    expect(headersProvider).toHaveBeenCalledTimes(2);
+    const authHeaders = fetchMock.mock.calls.map(
+      ([_input, init]) =>
+        (init?.headers as Record<string, string>).Authorization,
+    );
+    expect(authHeaders).toEqual(["Bearer a", "Bearer b"]);
+  });
+
+  test("should refresh headers once on HTTP 401", async () => {
+    const fetchMock = jest.fn((_input: unknown, init?: RequestInit) => {
+      const { Authorization } = init?.headers as Record<string, string>;
+      return Promise.resolve(
+        Authorization === "Bearer fresh"
+          ? new Response(JSON.stringify({ data: { test: 1 } }))
+          : new Response(null, { status: 401 }),
+      );
+    });
+    global.fetch = fetchMock as typeof fetch;
+    const apiExecutor = new FetchApiQueryExecutor({
+      graphqlUri: "http://api",
+      headers: ({ refresh }) => ({
+        Authorization: refresh ? "Bearer fresh" : "Bearer expired",
+      }),
+    });
+
+    const result = await apiExecutor.executeQuery(query);
+
+    expect(JSON.parse(result)).toEqual({ test: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("FetchApiQueryExecutor persisted queries", () => {
+  const query = { query: "query Test { test { id } }" };
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("should calculate hex encoded sha256 hash", async () => {
+    expect(await sha256("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+  });
+
+  test("should fall back to full query when API does not know the hash", async () => {
+    const fetchMock = jest.fn((_input: unknown, init?: RequestInit) => {
+      const body = JSON.parse(init?.body as string);
+      return Promise.resolve(
+        new Response(
+          JSON.stringify(
+            body.query
+              ? { data: { test: { id: 1 } } }
+              : { errors: [{ message: "PersistedQueryNotFound" }] },
+          ),
+        ),
+      );
+    });
+    global.fetch = fetchMock as typeof fetch;
+    const apiExecutor = new FetchApiQueryExecutor({
+      graphqlUri: "http://api",
+      persistedQueries: { mode: "apq" },
+    });
+
+    const result = await apiExecutor.executeQuery(query);
+
+    expect(JSON.parse(result)).toEqual({ test: { id: 1 } });
+    const [firstBody, secondBody] = fetchMock.mock.calls.map(([_input, init]) =>
+      JSON.parse(init?.body as string),
+    );
+    const expectedHash = await sha256(query.query);
+    expect(firstBody).toEqual({
+      extensions: { persistedQuery: { version: 1, sha256Hash: expectedHash } },
+    });
+    expect(secondBody.query).toBe(query.query);
+  });
+
+  test("should reject operations missing in the manifest", async () => {
+    const manifest = await createPersistedQueryManifest([query]);
+    const apiExecutor = new FetchApiQueryExecutor({
+      graphqlUri: "http://api",
+      persistedQueries: { mode: "allowlist", manifest },
+    });
+
+    expect(manifest.operations[0]).toEqual({
+      id: await sha256(query.query),
+      name: "Test",
+      type: "query",
+      body: query.query,
+    });
+    await expect(
+      apiExecutor.executeQuery({ query: "query Other { other }" }),
+    ).rejects.toThrow("Operation is not in the persisted query manifest");
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, test } from "@jest/globals";
+import { buildSchema } from "graphql";
+import {
+  ApiQueryError,
+  ApiQueryErrorType,
+  ErrorType,
+  GraphQLSchemaConverter,
+  InProcessApiQueryExecutor,
+  StandardAPIFunctionFactory,
+} from "../../../src";
+
+const schema = buildSchema(`
+  type Product {
+    id: ID!
+    name: String
+  }
+
+  type Query {
+    product(id: ID!): Product
+    whoami: String
+  }
+`);
+
+const products = [
+  { id: "1", name: "Drill" },
+  { id: "2", name: "Pump" },
+];
+
+const rootValue = {
+  product: ({ id }: { id: string }) => {
+    if (id === "0") {
+      throw new Error("Product 0 is not available");
+    }
+    return products.find((p) => p.id === id);
+  },
+  whoami: (_: unknown, context: { userId?: string }) => context.userId,
+};
+
+describe("InProcessApiQueryExecutor", () => {
+  test("should execute query against the local schema", async () => {
+    const executor = new InProcessApiQueryExecutor({ schema, rootValue });
+
+    const result = await executor.executeQuery(
+      { query: "query P($id: ID!) { product(id: $id) { name } }" },
+      { id: "2" },
+    );
+
+    expect(JSON.parse(result)).toEqual({ product: { name: "Pump" } });
+  });
+
+  test("should create context for every query from execution options", async () => {
+    const executor = new InProcessApiQueryExecutor({
+      schema,
+      rootValue,
+      contextValue: (options) => ({ userId: options?.context?.userId }),
+    });
+
+    const result = await executor.executeQuery(
+      { query: "{ whoami }" },
+      undefined,
+      { context: { userId: "user-1" } },
+    );
+
+    expect(JSON.parse(result)).toEqual({ whoami: "user-1" });
+  });
+
+  test("should reject query that is invalid for the schema", async () => {
+    const executor = new InProcessApiQueryExecutor({ schema, rootValue });
+    const query = { query: "{ product(id: 1) { price } }" };
+
+    expect(executor.validateQuery(query).errorType).toBe(
+      ErrorType.INVALID_ARGUMENT,
+    );
+    const error = (await executor
+      .executeQuery(query)
+      .catch((e) => e)) as ApiQueryError;
+
+    expect(error).toBeInstanceOf(ApiQueryError);
+    expect(error.type).toBe(ApiQueryErrorType.GRAPHQL);
+    expect(error.message).toContain(
+      'Cannot query field "price" on type "Product".',
+    );
+  });
+
+  test("should surface resolver errors", async () => {
+    const executor = new InProcessApiQueryExecutor({ schema, rootValue });
+
+    const error = (await executor
+      .executeQuery({ query: '{ product(id: "0") { name } }' })
+      .catch((e) => e)) as ApiQueryError;
+
+    expect(error).toBeInstanceOf(ApiQueryError);
+    expect(error.errors[0]).toMatchObject({
+      message: "Product 0 is not available",
+      path: ["product"],
+    });
+  });
+
+  test("should run generated functions offline", async () => {
+    const executor = new InProcessApiQueryExecutor({ schema, rootValue });
+    const converter = new GraphQLSchemaConverter(
+      new StandardAPIFunctionFactory(executor),
+    );
+
+    const functions = await converter.convertSchemaFromApiExecutor();
+    const getProduct = functions.find((f) => f.function.name === "product")!;
+
+    const result = await getProduct.validateAndExecute({ id: "1" });
+
+    expect(JSON.parse(result)).toEqual({
+      product: { id: "1", name: "Drill" },
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  ApiQueryError,
+  RetryApiQueryExecutor,
+  RetryApiQueryExecutorConfig,
+} from "../../../src";
+import { MockAPIExecutor } from "../../mocks/mock-api-executor";
+
+describe("RetryApiQueryExecutor", () => {
+  const query = { query: "query Test { test { id } }" };
+  const mutation = { query: "mutation Save { save { id } }" };
+  const config: RetryApiQueryExecutorConfig = {
+    maxAttempts: 3,
+    initialDelayMs: 0,
+  };
+
+  const createFailingExecutor = (errors: Error[]) => {
+    let calls = 0;
+    const mockExecutor = new MockAPIExecutor(() => {
+      const error = errors[calls++];
+      if (error) {
+        throw error;
+      }
+      return "{}";
+    });
+    return { mockExecutor, getCalls: () => calls };
+  };
+
+  test("should retry retryable errors", async () => {
+    const { mockExecutor, getCalls } = createFailingExecutor([
+      ApiQueryError.fromHttpResponse(503),
+      ApiQueryError.fromNetworkError(new Error("ECONNRESET")),
+    ]);
+    const apiExecutor = new RetryApiQueryExecutor(mockExecutor, config);
+
+    const result = await apiExecutor.executeQuery(query);
+
+    expect(result).toBe("{}");
+    expect(getCalls()).toBe(3);
+  });
+
+  test("should not retry non-retryable errors", async () => {
+    const { mockExecutor, getCalls } = createFailingExecutor([
+      ApiQueryError.fromHttpResponse(400),
+    ]);
+    const apiExecutor = new RetryApiQueryExecutor(mockExecutor, config);
+
+    await expect(apiExecutor.executeQuery(query)).rejects.toThrow(
+      ApiQueryError,
+    );
+    expect(getCalls()).toBe(1);
+  });
+
+  test("should give up after max attempts", async () => {
+    const { mockExecutor, getCalls } = createFailingExecutor([
+      ApiQueryError.fromHttpResponse(502),
+      ApiQueryError.fromHttpResponse(502),
+      ApiQueryError.fromHttpResponse(502),
+    ]);
+    const apiExecutor = new RetryApiQueryExecutor(mockExecutor, config);
+
+    await expect(apiExecutor.executeQuery(query)).rejects.toThrow(
+      "API responded with HTTP 502",
+    );
+    expect(getCalls()).toBe(3);
+  });
+
+  test("should not retry mutations by default", async () => {
+    const { mockExecutor, getCalls } = createFailingExecutor([
+      ApiQueryError.fromHttpResponse(503),
+    ]);
+    const apiExecutor = new RetryApiQueryExecutor(mockExecutor, config);
+
+    await expect(apiExecutor.executeQuery(mutation)).rejects.toThrow(
+      ApiQueryError,
+    );
+    expect(getCalls()).toBe(1);
+  });
+
+  test("should not retry queries with unknown operation type", async () => {
+    const { mockExecutor, getCalls } = createFailingExecutor([
+      ApiQueryError.fromHttpResponse(503),
+    ]);
+    const apiExecutor = new RetryApiQueryExecutor(mockExecutor, config);
+
+    await expect(
+      apiExecutor.executeQuery({ query: "query Test { test {" }),
+    ).rejects.toThrow(ApiQueryError);
+    expect(getCalls()).toBe(1);
+  });
+
+  test("should retry mutations when enabled", async () => {
+    const { mockExecutor, getCalls } = createFailingExecutor([
+      ApiQueryError.fromHttpResponse(503),
+    ]);
+    const apiExecutor = new RetryApiQueryExecutor(mockExecutor, {
+      ...config,
+      mutations: { maxAttempts: 2 },
+    });
+
+    await apiExecutor.executeQuery(mutation);
+
+    expect(getCalls()).toBe(2);
+  });
+
+  test("should stop retrying when signal is aborted", async () => {
+    const { mockExecutor, getCalls } = createFailingExecutor([
+      ApiQueryError.fromHttpResponse(503),
+      ApiQueryError.fromHttpResponse(503),
+    ]);
+    const apiExecutor = new RetryApiQueryExecutor(mockExecutor, {
+      ...config,
+      initialDelayMs: 1000,
+      jitter: false,
+    });
+    const controller = new AbortController();
+
+    const promise = apiExecutor.executeQuery(query, undefined, {
+      signal: controller.signal,
+    });
+    controller.abort(new Error("Cancelled by user"));
+
+    await expect(promise).rejects.toThrow("Cancelled by user");
+    expect(getCalls()).toBe(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, test } from "@jest/globals";
+import { convertSchema, SchemaMockApiQueryExecutor } from "../../../src";
+
+const schemaString = `
+  scalar DateTime
+
+  enum Status {
+    ACTIVE
+    RETIRED
+  }
+
+  interface Asset {
+    id: ID!
+  }
+
+  type Pump implements Asset {
+    id: ID!
+    flowRate: Float!
+  }
+
+  type Well implements Asset {
+    id: ID!
+    depth: Int!
+  }
+
+  type Product {
+    id: ID!
+    name: String
+    status: Status!
+    tags: [String!]!
+    createdAt: DateTime!
+  }
+
+  type Query {
+    products(limit: Int): [Product!]!
+    assets: [Asset!]!
+  }
+`;
+
+const productsQuery = {
+  query: "{ products { id name status tags createdAt } }",
+};
+
+describe("SchemaMockApiQueryExecutor", () => {
+  test("should return type-correct data", async () => {
+    const executor = new SchemaMockApiQueryExecutor({
+      schema: schemaString,
+      listLength: 3,
+    });
+
+    const { products } = JSON.parse(await executor.executeQuery(productsQuery));
+
+    expect(products).toHaveLength(3);
+    for (const product of products) {
+      expect(typeof product.id).toBe("string");
+      expect(typeof product.name).toBe("string");
+      expect(["ACTIVE", "RETIRED"]).toContain(product.status);
+      expect(product.tags).toHaveLength(3);
+      expect(new Date(product.createdAt).toISOString()).toBe(product.createdAt);
+    }
+  });
+
+  test("should be deterministic with a seed", async () => {
+    const create = (seed: number) =>
+      new SchemaMockApiQueryExecutor({ schema: schemaString, seed });
+
+    const first = await create(1).executeQuery(productsQuery);
+
+    expect(await create(1).executeQuery(productsQuery)).toBe(first);
+    expect(await create(2).executeQuery(productsQuery)).not.toBe(first);
+  });
+
+  test("should apply mocks by type name", async () => {
+    const executor = new SchemaMockApiQueryExecutor({
+      schema: schemaString,
+      mocks: {
+        DateTime: () => "2024-01-01T00:00:00.000Z",
+        Product: ({ args }) => ({ name: `Product ${args.limit ?? 0}` }),
+      },
+    });
+
+    const { products } = JSON.parse(
+      await executor.executeQuery({
+        query: "{ products(limit: 5) { name createdAt } }",
+      }),
+    );
+
+    expect(products[0]).toEqual({
+      name: "Product 5",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+  });
+
+  test("should resolve interfaces to concrete types", async () => {
+    const executor = new SchemaMockApiQueryExecutor({
+      schema: schemaString,
+      listLength: 10,
+      seed: 42,
+    });
+
+    const { assets } = JSON.parse(
+      await executor.executeQuery({
+        query:
+          "{ assets { __typename id ... on Pump { flowRate } ... on Well { depth } } }",
+      }),
+    );
+
+    for (const asset of assets) {
+      expect(asset).toHaveProperty(
+        asset.__typename === "Pump" ? "flowRate" : "depth",
+      );
+    }
+  });
+
+  test("should execute generated functions", async () => {
+    const executor = new SchemaMockApiQueryExecutor({ schema: schemaString });
+    const [products] = convertSchema(schemaString, executor);
+
+    const result = JSON.parse(await products.validateAndExecute({ limit: 1 }));
+
+    expect(result.products[0].status).toMatch(/ACTIVE|RETIRED/);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "@jest/globals";
+import { convertTestSchema } from "../../mocks/convert-schema";
+
+const schema = `
+  interface Node { id: ID! }
+  type Sensor implements Node {
+    id: ID!
+    value: Float
+    readings(limit: Int): [Reading]
+  }
+  type Reading implements Node {
+    id: ID!
+    value: Int
+    sensor: Sensor
+  }
+  union SearchResult = Sensor | Reading
+  type Query {
+    node(id: ID!): Node
+    search(text: String!): [SearchResult]
+  }
+`;
+
+const convert = (maxDepth = 3) => convertTestSchema(schema, { maxDepth });
+
+describe("interfaces and unions", () => {
+  test("should select interface implementations with inline fragments", () => {
+    const [node] = convert(2);
+
+    expect(node.apiQuery.query).toBe(
+      "query node($id: ID!, $readings_limit: Int) {\n" +
+        "node(id: $id) {\n" +
+        "__typename\n" +
+        "id\n" +
+        "... on Sensor {\n" +
+        "value\n" +
+        "readings(limit: $readings_limit) {\n" +
+        "id\n" +
+        "value\n" +
+        "}\n" +
+        "}\n" +
+        "... on Reading {\n" +
+        "Reading_value: value\n" +
+        "sensor {\n" +
+        "id\n" +
+        "value\n" +
+        "}\n" +
+        "}\n" +
+        "}\n" +
+        "\n" +
+        "}",
+    );
+  });
+
+  test("should alias fields of fragments that return different types", () => {
+    const [, search] = convert(2);
+
+    expect(search.apiQuery.query).toContain(
+      "... on Sensor {\nid\nvalue\nreadings(limit: $readings_limit)",
+    );
+    expect(search.apiQuery.query).toContain(
+      "... on Reading {\nid\nReading_value: value\nsensor {",
+    );
+  });
+
+  test("should not repeat types of the path in fragments", () => {
+    const [, search] = convert(4);
+
+    // Reading.sensor does not select readings of the sensor again
+    expect(search.apiQuery.query).toContain("sensor {\nid\nvalue\n}");
+    expect(search.function.parameters.properties).toEqual({
+      text: { type: "string" },
+      readings_limit: { type: "integer" },
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "@jest/globals";
+import { ArgumentNamingConfig } from "../../../src";
+import { convertTestSchema } from "../../mocks/convert-schema";
+
+const schema = `
+  input Filter { id: ID, name: String }
+  input Page { id: ID, size: Int }
+  type Order { id: ID! }
+  type Customer { id: ID!, orders(limit: Int): [Order] }
+  type Query {
+    customers(id: ID, filter: Filter, page: Page, limit: Int): [Customer]
+  }
+`;
+
+const convert = (argumentNaming?: ArgumentNamingConfig) => {
+  const [customers] = convertTestSchema(schema, { argumentNaming });
+  return customers;
+};
+
+describe("argument naming", () => {
+  test("should disambiguate colliding names", () => {
+    const customers = convert();
+
+    expect(customers.apiQuery.argumentPaths).toEqual({
+      id: "customers(id)",
+      id_2: "customers(filter.id)",
+      name: "customers(filter.name)",
+      id_3: "customers(page.id)",
+      size: "customers(page.size)",
+      limit: "customers(limit)",
+      orders_limit: "customers.orders(limit)",
+    });
+    expect(Object.keys(customers.function.parameters.properties)).toEqual(
+      Object.keys(customers.apiQuery.argumentPaths!),
+    );
+    expect(customers.apiQuery.query).toContain(
+      "customers(id: $id, filter: { id: $id_2, name: $name }, page: { id: $id_3, size: $size }, limit: $limit)",
+    );
+  });
+
+  test("should prefix input object fields in camelCase", () => {
+    const customers = convert({
+      prefixInputObjectFields: true,
+      case: "camelCase",
+    });
+
+    expect(customers.apiQuery.argumentPaths).toEqual({
+      id: "customers(id)",
+      filterId: "customers(filter.id)",
+      filterName: "customers(filter.name)",
+      pageId: "customers(page.id)",
+      pageSize: "customers(page.size)",
+      limit: "customers(limit)",
+      ordersLimit: "customers.orders(limit)",
+    });
+  });
+
+  test("should shorten long names", () => {
+    const customers = convert({
+      prefixInputObjectFields: true,
+      case: "snake_case",
+      maxLength: 6,
+    });
+
+    expect(Object.keys(customers.apiQuery.argumentPaths!)).toEqual([
+      "id",
+      "filter",
+      "filt_2",
+      "page_i",
+      "page_s",
+      "limit",
+      "orders",
+    ]);
+  });
+});
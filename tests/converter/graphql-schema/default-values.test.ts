@@ -0,0 +1,113 @@
+import { describe, expect, jest, test } from "@jest/globals";
+import {
+  GraphQlOperationConverter,
+  StandardAPIFunctionFactory,
+} from "../../../src";
+import { convertTestSchema } from "../../mocks/convert-schema";
+import { MockAPIExecutor } from "../../mocks/mock-api-executor";
+
+const schema = `
+  enum Status { ACTIVE, RETIRED }
+  input Page { limit: Int! = 20, offset: Int }
+  type Product { id: ID! }
+  type Query {
+    products(
+      "Product category"
+      category: String! = "all"
+      status: Status = ACTIVE
+      name: String = null
+      page: Page
+    ): [Product]
+  }
+`;
+
+describe("default values", () => {
+  test("should add defaults of arguments and treat them as optional", () => {
+    const [products] = convertTestSchema(schema);
+
+    expect(products.function.parameters).toEqual({
+      type: "object",
+      properties: {
+        category: {
+          type: "string",
+          description: 'Product category\nDefault: "all"',
+          default: "all",
+        },
+        status: {
+          type: "string",
+          enum: ["ACTIVE", "RETIRED"],
+          description: 'Default: "ACTIVE"',
+          default: "ACTIVE",
+        },
+        name: { type: "string" },
+        limit: { type: "integer", description: "Default: 20", default: 20 },
+        offset: { type: "integer" },
+      },
+      required: [],
+    });
+    expect(products.apiQuery.query).toContain(
+      '$category: String! = "all", $status: Status = ACTIVE',
+    );
+  });
+
+  test("should add defaults of nested input object fields", () => {
+    const [products] = convertTestSchema(schema, { inputObjects: "nested" });
+
+    expect(products.function.parameters.properties.page).toEqual({
+      type: "object",
+      properties: {
+        limit: { type: "integer", description: "Default: 20", default: 20 },
+        offset: { type: "integer" },
+      },
+      required: [],
+      additionalProperties: false,
+    });
+  });
+
+  test("should add defaults of operation variables", () => {
+    const [products] = new GraphQlOperationConverter(
+      new StandardAPIFunctionFactory(MockAPIExecutor.create("{}")),
+    ).convertOperations(`
+      query products(
+        # Page size
+        $limit: Int! = 10
+        $status: Status = RETIRED
+        $name: String!
+      ) {
+        products(limit: $limit, status: $status, name: $name) { id }
+      }
+    `);
+
+    expect(products.function.parameters).toEqual({
+      type: "object",
+      properties: {
+        limit: {
+          type: "integer",
+          description: "Page size\nDefault: 10",
+          default: 10,
+        },
+        status: {
+          type: "string",
+          description: 'Default: "RETIRED"',
+          default: "RETIRED",
+        },
+        name: { type: "string" },
+      },
+      required: ["name"],
+    });
+  });
+
+  test("should apply defaults when the model omits arguments", async () => {
+    const apiExecutor = MockAPIExecutor.create("{}");
+    const executeQuery = jest.spyOn(apiExecutor, "executeQuery");
+    const [products] = convertTestSchema(schema, {}, apiExecutor);
+
+    await products.validateAndExecute({ status: "RETIRED", offset: 5 });
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      products.apiQuery,
+      { category: "all", status: "RETIRED", limit: 20, offset: 5 },
+      expect.anything(),
+    );
+  });
+});
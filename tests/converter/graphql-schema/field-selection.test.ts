@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals";
+import {
+  GraphQLSchemaConverterConfig,
+  noopLogger,
+  observability,
+} from "../../../src";
+import { convertTestSchema } from "../../mocks/convert-schema";
+
+const schema = `
+  type Customer {
+    id: ID!
+    name: String
+    internalNotes: String
+    orders(limit: Int): [Order]
+    recommendations(model: String!): [Product]
+  }
+  type Order { id: ID!, total: Float, items: [Product] }
+  type Product { id: ID!, name: String, price: Float }
+  type Query {
+    customer(id: ID!): Customer
+    orders: [Order]
+  }
+`;
+
+const getQueries = (config: Partial<GraphQLSchemaConverterConfig>) =>
+  convertTestSchema(schema, config).map((f) =>
+    f.apiQuery.query.replace(/\n+/g, " "),
+  );
+
+describe("field selection rules", () => {
+  afterEach(() => {
+    observability.configure({ logger: noopLogger, hooks: [] });
+  });
+
+  test("should include and exclude fields by patterns", () => {
+    const [customer] = getQueries({
+      selection: {
+        include: ["Order.id", "Order.items", "Product.*"],
+        exclude: ["*.internal*", "Product.price"],
+      },
+    });
+
+    expect(customer).toBe(
+      "query customer($id: ID!, $orders_limit: Int, $recommendations_model: String!) { " +
+        "customer(id: $id) { id name " +
+        "orders(limit: $orders_limit) { id items { id name } } " +
+        "recommendations(model: $recommendations_model) { id name } } }",
+    );
+  });
+
+  test("should select only scalars", () => {
+    const [customer] = getQueries({ selection: { scalarsOnly: true } });
+
+    expect(customer).toBe(
+      "query customer($id: ID!) { customer(id: $id) { id name internalNotes } }",
+    );
+  });
+
+  test("should limit number of fields and skip fields with required arguments", () => {
+    const [customer] = getQueries({
+      selection: { maxFields: 4, skipFieldsWithRequiredArgs: true },
+      maxDepth: 2,
+    });
+
+    expect(customer).toBe(
+      "query customer($id: ID!, $orders_limit: Int) { customer(id: $id) { " +
+        "id name internalNotes orders(limit: $orders_limit) { id total } } }",
+    );
+  });
+
+  test("should skip nested fields without selected fields", () => {
+    const [customer, orders] = getQueries({
+      selection: { exclude: ["Product.*"] },
+    });
+
+    // arguments of skipped fields are not declared
+    expect(customer).toBe(
+      "query customer($id: ID!, $orders_limit: Int) { customer(id: $id) { " +
+        "id name internalNotes orders(limit: $orders_limit) { id total } } }",
+    );
+    expect(orders).toBe("query orders { orders { id total } }");
+  });
+
+  test("should skip operations without selected fields", () => {
+    const logger = { ...noopLogger, error: jest.fn() };
+    const onConversionWarning = jest.fn();
+    observability.configure({ logger, hooks: { onConversionWarning } });
+
+    const queries = getQueries({ selection: { exclude: ["Customer.*"] } });
+
+    expect(queries).toEqual([
+      "query orders { orders { id total items { id name price } } }",
+    ]);
+    expect(onConversionWarning).toHaveBeenCalledWith(
+      expect.objectContaining({ operationName: "customer" }),
+    );
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+
+  test("should use depth limits of operations", () => {
+    const [customer, orders] = getQueries({
+      maxDepth: 1,
+      maxDepthByOperation: { orders: 2 },
+    });
+
+    expect(customer).not.toContain("orders");
+    expect(orders).toBe(
+      "query orders { orders { id total items { id name price } } }",
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, jest, test } from "@jest/globals";
+import { convertTestSchema } from "../../mocks/convert-schema";
+import { MockAPIExecutor } from "../../mocks/mock-api-executor";
+
+const schema = `
+  input TextFilter { eq: String, in: [String!] }
+  input OrderFilter {
+    "Customer name"
+    customer: TextFilter
+    and: [OrderFilter!]
+  }
+  input Page { limit: Int!, offset: Int }
+  type Order { id: ID! }
+  type Query {
+    orders(filter: OrderFilter, page: Page!): [Order]
+  }
+`;
+
+const textFilter = {
+  type: "object",
+  properties: {
+    eq: { type: "string" },
+    in: { type: "array", items: { type: "string" } },
+  },
+  required: [],
+  additionalProperties: false,
+};
+
+describe("input objects", () => {
+  test("should convert input objects into nested parameters", () => {
+    const [orders] = convertTestSchema(schema, {
+      inputObjects: "nested",
+      maxInputDepth: 1,
+    });
+
+    expect(orders.function.parameters).toEqual({
+      type: "object",
+      properties: {
+        filter: {
+          type: "object",
+          properties: {
+            // depth limit exceeded
+            customer: { type: "object", description: "Customer name" },
+            and: { type: "array", items: { type: "object" } },
+          },
+          required: [],
+          additionalProperties: false,
+        },
+        page: {
+          type: "object",
+          properties: {
+            limit: { type: "integer" },
+            offset: { type: "integer" },
+          },
+          required: ["limit"],
+          additionalProperties: false,
+        },
+      },
+      required: ["page"],
+    });
+    expect(orders.apiQuery.query).toContain(
+      "query orders($filter: OrderFilter, $page: Page!) {\norders(filter: $filter, page: $page)",
+    );
+  });
+
+  test("should pass nested objects as a single variable", async () => {
+    const apiExecutor = MockAPIExecutor.create("{}");
+    const executeQuery = jest.spyOn(apiExecutor, "executeQuery");
+    const [orders] = convertTestSchema(
+      schema,
+      { inputObjects: "nested" },
+      apiExecutor,
+    );
+    const args = {
+      filter: { and: [{ customer: { eq: "Acme" } }] },
+      page: { limit: 10 },
+    };
+
+    await orders.validateAndExecute(args);
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      orders.apiQuery,
+      args,
+      expect.anything(),
+    );
+  });
+
+  test("should convert deeper input objects of flattened arguments", () => {
+    const [orders] = convertTestSchema(schema);
+
+    expect(orders.function.parameters.properties).toEqual({
+      customer: { ...textFilter, description: "Customer name" },
+      and: {
+        type: "array",
+        items: expect.objectContaining({ type: "object" }),
+      },
+      limit: { type: "integer" },
+      offset: { type: "integer" },
+    });
+  });
+});
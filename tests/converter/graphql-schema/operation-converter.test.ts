@@ -1,4 +1,4 @@
-import { describe, expect, test } from "@jest/globals";
+import { describe, expect, jest, test } from "@jest/globals";
 import { convertOperations } from "../../../src";
 import { GraphQLError } from "graphql/error";
 
@@ -102,4 +102,37 @@ mutation SaveChatMessage(
     expect(functions).toHaveLength(1);
     expect(functions[0].toJSON()).toEqual(expectedFunction);
   });
+
+  test("convertOperations should hide context variables marked with directive", async () => {
+    const functions = convertOperations(
+      `
+query Orders($customerid: Int! @context, $limit: Int) {
+  Orders(customerid: $customerid, limit: $limit) {
+    id
+  }
+}`,
+      { contextArguments: { directive: "context" } },
+    );
+    const executeQuery = jest.spyOn(functions[0].apiExecutor, "executeQuery");
+
+    expect(functions[0].function.parameters.properties).toEqual({
+      limit: { type: "integer" },
+    });
+    expect(functions[0].apiQuery.query).not.toContain("@context");
+    expect(functions[0].apiQuery.contextArguments).toEqual({
+      customerid: "customerid",
+    });
+
+    await functions[0].execute(
+      { limit: 5, customerid: 666 },
+      { context: { customerid: 42 } },
+    );
+    expect(executeQuery.mock.calls[0][1]).toEqual({
+      limit: 5,
+      customerid: 42,
+    });
+    await expect(functions[0].execute({ limit: 5 })).rejects.toThrow(
+      "requires `customerid` in the call context",
+    );
+  });
 });
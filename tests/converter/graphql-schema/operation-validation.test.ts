@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals";
+import { buildSchema } from "graphql/utilities";
+import {
+  GraphQLSchemaConverter,
+  graphQlSchemaConverterConfig,
+  GraphQlOperationConverter,
+  introspectSchema,
+  noopLogger,
+  observability,
+  OperationValidationError,
+  StandardAPIFunctionFactory,
+} from "../../../src";
+import { MockAPIExecutor } from "../../mocks/mock-api-executor";
+import { TestUtil } from "../../test.utils";
+
+const functionFactory = new StandardAPIFunctionFactory(
+  MockAPIExecutor.create("none"),
+);
+const sensorsSchema = TestUtil.getAssetFileAsString("graphql/sensors.graphqls");
+
+describe("operation validation", () => {
+  afterEach(() => {
+    observability.configure({ logger: noopLogger, hooks: [] });
+  });
+
+  test.each([
+    "creditcard-rewards.graphqls",
+    "law_enforcement.graphqls",
+    "nutshop-schema.graphqls",
+    "sensors.graphqls",
+  ])("should generate valid queries for %s", (fileName) => {
+    const schema = TestUtil.getAssetFileAsString(`graphql/${fileName}`);
+    const converter = new GraphQLSchemaConverter(functionFactory, {
+      ...graphQlSchemaConverterConfig.create(),
+      validateOperations: "reject",
+    });
+    const onConversionWarning = jest.fn();
+    observability.configure({ hooks: { onConversionWarning } });
+
+    const functions = converter.convertSchema(schema);
+
+    expect(functions.length).toBeGreaterThan(0);
+    expect(onConversionWarning).not.toHaveBeenCalled();
+  });
+
+  test("should validate provided operations", () => {
+    const converter = new GraphQlOperationConverter(functionFactory, {
+      schema: sensorsSchema,
+      validateOperations: "reject",
+    });
+
+    const functions = converter.convertOperations(
+      TestUtil.getAssetFileAsString("graphql/sensors-aboveTemp.graphql"),
+    );
+
+    expect(functions.map((f) => f.getName())).toEqual([
+      "HighTemps",
+      "HighTemps2",
+    ]);
+  });
+
+  test("should reject invalid operations", () => {
+    const converter = new GraphQlOperationConverter(functionFactory, {
+      schema: buildSchema(sensorsSchema),
+      validateOperations: "reject",
+    });
+
+    const convert = () =>
+      converter.convertOperations(`
+        query HighTemps($temp: String!, $limit: Int) {
+          ReadingsAboveTemp(temp: $temp) { sensorid humidity }
+        }
+      `);
+
+    expect(convert).toThrow(OperationValidationError);
+    expect(convert).toThrow(
+      'Variable "$temp" of type "String!" used in position expecting type "Float!".',
+    );
+    expect(convert).toThrow('Cannot query field "humidity"');
+    expect(convert).toThrow('Variable "$limit" is never used');
+  });
+
+  test("should report invalid operations and create tools", () => {
+    const onConversionWarning = jest.fn();
+    observability.configure({
+      logger: noopLogger,
+      hooks: { onConversionWarning },
+    });
+    const converter = new GraphQlOperationConverter(functionFactory, {
+      schema: sensorsSchema,
+      validateOperations: "report",
+    });
+
+    const functions = converter.convertOperations(
+      "query Temps { ReadingsAboveTemp(temp: $temp) { sensorid } }",
+    );
+
+    expect(functions).toHaveLength(1);
+    expect(onConversionWarning).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operationName: "Temps",
+        error: expect.any(OperationValidationError),
+      }),
+    );
+  });
+
+  test("should require a schema for validation", () => {
+    expect(
+      () =>
+        new GraphQlOperationConverter(functionFactory, {
+          validateOperations: "reject",
+        }),
+    ).toThrow("`schema` is required to validate operations");
+  });
+
+  test("should introspect the schema", async () => {
+    const { graphql, getIntrospectionQuery } = await import("graphql");
+    const introspection = await graphql({
+      schema: buildSchema(sensorsSchema),
+      source: getIntrospectionQuery(),
+    });
+    const schema = await introspectSchema(
+      MockAPIExecutor.create(JSON.stringify(introspection.data)),
+    );
+
+    expect(schema.getQueryType()?.getFields()).toHaveProperty(
+      "ReadingsAboveTemp",
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  GraphQlOperationConverter,
+  ScalarMappings,
+  StandardAPIFunctionFactory,
+} from "../../../src";
+import { convertTestSchema } from "../../mocks/convert-schema";
+import { MockAPIExecutor } from "../../mocks/mock-api-executor";
+
+const schema = `
+  scalar DateTime
+  scalar Long
+  scalar JSON
+  scalar Money
+  scalar Color
+  type Payment { id: ID! }
+  type Query {
+    payments(
+      "Payments made after"
+      after: DateTime!
+      customerId: Long
+      metadata: JSON
+      minAmount: Money
+      color: Color
+      tags: [String!]
+    ): [Payment]
+  }
+`;
+
+const scalars: ScalarMappings = {
+  Money: {
+    type: "string",
+    description: "Decimal amount as a string",
+    examples: ["10.50"],
+  },
+  JSON: { type: "string", description: "JSON encoded object" },
+};
+
+const functionFactory = new StandardAPIFunctionFactory(
+  MockAPIExecutor.create("{}"),
+);
+
+describe("scalar mapping", () => {
+  test("should map common scalars with the default mappings", () => {
+    const [payments] = convertTestSchema(schema);
+
+    expect(payments.function.parameters.properties).toEqual({
+      after: {
+        type: "string",
+        format: "date-time",
+        description: "Payments made after",
+      },
+      customerId: { type: "integer" },
+      metadata: {},
+      minAmount: { type: "string" },
+      color: { type: "string" },
+      tags: { type: "array", items: { type: "string" } },
+    });
+  });
+
+  test("should use custom mappings before the default mappings", () => {
+    const [payments] = convertTestSchema(schema, { scalars });
+
+    expect(payments.function.parameters.properties.minAmount).toEqual({
+      type: "string",
+      description: "Decimal amount as a string",
+      examples: ["10.50"],
+    });
+    expect(payments.function.parameters.properties.metadata).toEqual({
+      type: "string",
+      description: "JSON encoded object",
+    });
+  });
+
+  test("should map scalars of operation variables", () => {
+    const [payments] = new GraphQlOperationConverter(functionFactory, {
+      scalars,
+    }).convertOperations(`
+      query payments(
+        # Payments made after
+        $after: DateTime!
+        $minAmount: Money
+        $tags: [String!]
+      ) {
+        payments(after: $after, minAmount: $minAmount, tags: $tags) { id }
+      }
+    `);
+
+    expect(payments.function.parameters.properties).toEqual({
+      after: {
+        type: "string",
+        format: "date-time",
+        description: "Payments made after",
+      },
+      minAmount: {
+        type: "string",
+        description: "Decimal amount as a string",
+        examples: ["10.50"],
+      },
+      tags: { type: "array", items: { type: "string" } },
+    });
+  });
+});
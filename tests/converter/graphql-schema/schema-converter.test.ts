@@ -66,6 +66,45 @@ describe("GraphQLSchemaConverter Tests", () => {
     snapshotFunctions(functions, "nutshop");
   });
 
+  test("should hide context arguments from function parameters", () => {
+    const converter = new GraphQLSchemaConverter(
+      new StandardAPIFunctionFactory(apiExecutor),
+      {
+        ...graphQlSchemaConverterConfig.create(),
+        contextArguments: { names: ["customerid"] },
+      },
+    );
+    const schemaString = TestUtil.getAssetFileAsString(
+      "graphql/nutshop-schema.graphqls",
+    );
+
+    const functions = converter.convertSchema(schemaString);
+    const ordersFunction = functions.find((f) => f.getName() === "Orders");
+
+    expect(ordersFunction?.function.parameters.properties).not.toHaveProperty(
+      "customerid",
+    );
+    expect(ordersFunction?.function.parameters.required).not.toContain(
+      "customerid",
+    );
+    expect(ordersFunction?.apiQuery.query).toContain("$customerid: Int!");
+    expect(ordersFunction?.apiQuery.contextArguments).toEqual({
+      customerid: "customerid",
+    });
+  });
+
+  test("should separate variables of sibling fields", () => {
+    const [orders] = getConverter().convertSchema(`
+      type Item { id: ID }
+      type Order { items(limit: Int): [Item], returns(limit: Int): [Item] }
+      type Query { orders: [Order] }
+    `);
+
+    expect(orders.apiQuery.query).toContain(
+      "query orders($items_limit: Int, $returns_limit: Int) {",
+    );
+  });
+
   test("testCreditCard", () => {
     const functions = getFunctionsFromPath(
       "graphql/creditcard-rewards.graphqls",
@@ -1,7 +1,11 @@
-import { describe, expect, test } from "@jest/globals";
-import { toLangChainTools } from "../../src/modules/langchain";
+import { describe, expect, jest, test } from "@jest/globals";
+import {
+  jsonParamsToZodSchema,
+  toLangChainTools,
+} from "../../src/modules/langchain";
 import { TestUtil } from "../test.utils";
-import { APIFunction } from "../../src";
+import { APIFunction, FunctionDefinition } from "../../src";
+import { MockAPIExecutor } from "../mocks/mock-api-executor";
 import { z } from "zod";
 
 describe("toLangChainTools", () => {
@@ -18,9 +22,108 @@ describe("toLangChainTools", () => {
     expect(tools.schema.shape.temp.isOptional()).toBeFalsy();
     expect(tools.schema.shape.temp.isInt).toBeFalsy();
 
-    expect(tools.schema.shape.limit).toBeInstanceOf(z.ZodOptional);
+    expect(tools.schema.shape.limit).toBeInstanceOf(z.ZodDefault);
     expect(tools.schema.shape.limit._def.innerType).toBeInstanceOf(z.ZodNumber);
     expect(tools.schema.shape.limit.isOptional()).toBeTruthy();
     expect(tools.schema.shape.limit._def.innerType.isInt).toBeTruthy();
+    expect(tools.schema.shape.limit._def.defaultValue()).toBe(10);
+  });
+});
+
+describe("toLangChainTools argument repair", () => {
+  const functionDef: FunctionDefinition = {
+    name: "products",
+    parameters: {
+      type: "object",
+      properties: {
+        limit: { type: "integer" },
+        status: { type: "string", enum: ["ACTIVE", "RETIRED"] },
+      },
+      required: ["limit"],
+    },
+  };
+
+  test("should repair arguments before the zod validation", async () => {
+    const executor = MockAPIExecutor.create('{"ok":true}');
+    const executeQuery = jest.spyOn(executor, "executeQuery");
+    const tool = toLangChainTools(
+      new APIFunction(functionDef, { query: "" }, executor, {
+        argumentRepair: true,
+      }),
+    );
+
+    await expect(tool.invoke({ limit: "5", status: "retired" })).resolves.toBe(
+      '{"ok":true}',
+    );
+    expect(executeQuery).toHaveBeenCalledWith(
+      { query: "" },
+      { limit: 5, status: "RETIRED" },
+      expect.anything(),
+    );
+  });
+
+  test("should reject arguments without argument repair", async () => {
+    const tool = toLangChainTools(
+      new APIFunction(
+        functionDef,
+        { query: "" },
+        MockAPIExecutor.create('{"ok":true}'),
+      ),
+    );
+
+    await expect(tool.invoke({ limit: "5" })).rejects.toThrow();
+  });
+});
+
+describe("jsonParamsToZodSchema", () => {
+  test("converts enums, nested objects and defaults", () => {
+    const schema = jsonParamsToZodSchema({
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["OPEN", "CLOSED"], nullable: true },
+        limit: { type: "integer", minimum: 1, default: 10 },
+        filter: {
+          type: "object",
+          properties: { tag: { type: "string" } },
+          required: ["tag"],
+          additionalProperties: false,
+        },
+      },
+      required: ["status"],
+    });
+
+    expect(schema.parse({ status: "OPEN" })).toEqual({
+      status: "OPEN",
+      limit: 10,
+    });
+    expect(schema.parse({ status: null, filter: { tag: "a" } })).toEqual({
+      status: null,
+      limit: 10,
+      filter: { tag: "a" },
+    });
+    expect(schema.safeParse({ status: "open" }).success).toBeFalsy();
+    expect(schema.safeParse({ status: "OPEN", limit: 0 }).success).toBeFalsy();
+    expect(
+      schema.safeParse({ status: "OPEN", filter: { tag: "a", id: 1 } }).success,
+    ).toBeFalsy();
+  });
+
+  test("accepts any value of untyped schemas and treats formats as hints", () => {
+    const schema = jsonParamsToZodSchema({
+      type: "object",
+      properties: {
+        since: { type: "string", format: "date-time" },
+        metadata: {},
+      },
+      required: ["since", "metadata"],
+    });
+
+    expect(schema.parse({ since: "2024-05-01", metadata: [1, "a"] })).toEqual({
+      since: "2024-05-01",
+      metadata: [1, "a"],
+    });
+    expect(schema.safeParse({ since: "2024-05-01", metadata: 1 }).success).toBe(
+      true,
+    );
   });
 });
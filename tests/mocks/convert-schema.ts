@@ -0,0 +1,25 @@
+import {
+  APIQueryExecutor,
+  GraphQLSchemaConverter,
+  GraphQLSchemaConverterConfig,
+  graphQlSchemaConverterConfig,
+  StandardAPIFunctionFactory,
+} from "../../src";
+import { MockAPIExecutor } from "./mock-api-executor";
+
+/**
+ * Converts the schema with the default config. Generated operations are validated against the schema
+ * @param schema SDL of the schema
+ * @param config overrides of the default config
+ * @param apiExecutor executor of created functions, returns `{}` by default
+ */
+export const convertTestSchema = (
+  schema: string,
+  config: Partial<GraphQLSchemaConverterConfig> = {},
+  apiExecutor: APIQueryExecutor = MockAPIExecutor.create("{}"),
+) =>
+  new GraphQLSchemaConverter(new StandardAPIFunctionFactory(apiExecutor), {
+    ...graphQlSchemaConverterConfig.create(),
+    validateOperations: "reject",
+    ...config,
+  }).convertSchema(schema);
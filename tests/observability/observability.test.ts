@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals";
+import {
+  APIFunction,
+  ApiQueryError,
+  chatPersistence,
+  convertSchema,
+  noopLogger,
+  observability,
+  ObservabilityHooks,
+} from "../../src";
+import { MockAPIExecutor } from "../mocks/mock-api-executor";
+
+const createFunction = (executor = MockAPIExecutor.create('{"ok":true}')) =>
+  new APIFunction(
+    {
+      name: "getProduct",
+      parameters: { type: "object", properties: {}, required: [] },
+    },
+    { query: "query getProduct { product { id } }" },
+    executor,
+  );
+
+type Hook<K extends keyof ObservabilityHooks> = NonNullable<
+  ObservabilityHooks[K]
+>;
+
+const createHooks = () => ({
+  onToolCallStart: jest.fn<Hook<"onToolCallStart">>(),
+  onToolCallFinish: jest.fn<Hook<"onToolCallFinish">>(),
+  onToolCallFail: jest.fn<Hook<"onToolCallFail">>(),
+  onConversionWarning: jest.fn<Hook<"onConversionWarning">>(),
+  onPersistenceWrite: jest.fn<Hook<"onPersistenceWrite">>(),
+});
+
+describe("observability", () => {
+  afterEach(() => {
+    observability.configure({ logger: noopLogger, hooks: [] });
+  });
+
+  test("should report finished tool calls", async () => {
+    const hooks = createHooks();
+    observability.configure({ hooks });
+
+    await createFunction().validateAndExecute(
+      { id: "1" },
+      {
+        metadata: { runId: "run-1" },
+      },
+    );
+
+    expect(hooks.onToolCallStart).toHaveBeenCalledTimes(1);
+    const [startEvent] = hooks.onToolCallStart.mock.calls[0];
+    expect(startEvent).toMatchObject({
+      functionName: "getProduct",
+      arguments: { id: "1" },
+      metadata: { runId: "run-1" },
+    });
+    const [finishEvent] = hooks.onToolCallFinish.mock.calls[0];
+    expect(finishEvent).toMatchObject({
+      id: startEvent.id,
+      responseSize: '{"ok":true}'.length,
+    });
+    expect(finishEvent.durationMs).toBeGreaterThanOrEqual(0);
+    expect(hooks.onToolCallFail).not.toHaveBeenCalled();
+  });
+
+  test("should report failed tool calls", async () => {
+    const hooks = createHooks();
+    const error = ApiQueryError.fromHttpResponse(500);
+    const executor = MockAPIExecutor.create("");
+    executor.executeQuery = () => Promise.reject(error);
+    observability.configure({ hooks });
+
+    await expect(createFunction(executor).execute()).rejects.toBe(error);
+
+    expect(hooks.onToolCallFail).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: "getProduct", error }),
+    );
+    expect(hooks.onToolCallFinish).not.toHaveBeenCalled();
+  });
+
+  test("should ignore errors thrown by hooks", async () => {
+    const logger = { ...noopLogger, error: jest.fn() };
+    const hooks: ObservabilityHooks = {
+      onToolCallStart: () => {
+        throw new Error("exporter is down");
+      },
+    };
+    observability.configure({ logger, hooks });
+
+    await expect(createFunction().execute()).resolves.toBe('{"ok":true}');
+    expect(logger.error).toHaveBeenCalledWith(
+      "Observability hook onToolCallStart failed",
+      expect.any(Error),
+    );
+  });
+
+  test("should report conversion warnings to the logger and hooks", () => {
+    const logger = { ...noopLogger, error: jest.fn() };
+    const hooks = createHooks();
+    const removeHooks = observability.addHooks(hooks);
+    observability.configure({ logger });
+
+    const functions = convertSchema(
+      "type Empty { items(id: ID!): [Empty] } type Query { empty: Empty, ok: String }",
+    );
+    removeHooks();
+
+    expect(functions.map((f) => f.getName())).toEqual(["ok"]);
+    expect(logger.error).toHaveBeenCalledWith(
+      "Error converting query: empty",
+      expect.any(Error),
+    );
+    expect(hooks.onConversionWarning).toHaveBeenCalledWith(
+      expect.objectContaining({ operationName: "empty" }),
+    );
+  });
+
+  test("should report persistence writes", async () => {
+    const hooks = createHooks();
+    observability.configure({ hooks });
+    const persistence = chatPersistence.fromTools(
+      createFunction(),
+      createFunction(),
+    );
+
+    await persistence.saveChatMessage({ content: "hello" }, {});
+
+    expect(hooks.onPersistenceWrite).toHaveBeenCalledWith(
+      expect.objectContaining({ persistence: "tool" }),
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "@jest/globals";
+import { toOpenAiTools } from "../../src/modules/openai";
+import { convertTestSchema } from "../mocks/convert-schema";
+
+const schema = `
+  scalar JSON
+  input TextFilter { eq: String! }
+  input OrderFilter { customer: TextFilter! }
+  type Order { id: ID! }
+  type Customer { id: ID! }
+  type Query {
+    orders(filter: OrderFilter!): [Order]
+    customers(name: TextFilter!): [Customer]
+    events(payload: JSON!): [Order]
+  }
+`;
+
+describe("toOpenAiTools", () => {
+  test("should use strict mode only for tools with required typed parameters", () => {
+    const functions = convertTestSchema(schema, {
+      inputObjects: "nested",
+      maxInputDepth: 1,
+    });
+
+    const tools = toOpenAiTools(functions);
+
+    expect(tools.map((t) => [t.function.name, t.function.strict])).toEqual([
+      // `customer` exceeds the depth limit
+      ["orders", false],
+      ["customers", true],
+      ["events", false],
+    ]);
+    expect(tools[1].function.parameters).toEqual({
+      type: "object",
+      properties: {
+        name: {
+          type: "object",
+          properties: { eq: { type: "string" } },
+          required: ["eq"],
+          additionalProperties: false,
+        },
+      },
+      required: ["name"],
+      additionalProperties: false,
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ApiQueryError, ApiQueryErrorType } from "../../src";
+import {
+  Cassette,
+  CassetteMissError,
+  saveCassette,
+  RecordingApiQueryExecutor,
+  ReplayApiQueryExecutor,
+} from "../../src/modules/testing";
+import { MockAPIExecutor } from "../mocks/mock-api-executor";
+
+const query = { query: "query P($id: ID!) { product(id: $id) { name } }" };
+
+describe("RecordingApiQueryExecutor and ReplayApiQueryExecutor", () => {
+  let dir: string;
+  let cassettePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cassettes-"));
+    cassettePath = join(dir, "nested", "cassette.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("should replay recorded responses and errors", async () => {
+    const delegate = new MockAPIExecutor(() => '{"product":{"name":"Drill"}}');
+    delegate.executeQuery = async (q, args) => {
+      if (args?.id === "0") {
+        throw ApiQueryError.fromHttpResponse(503, "Service Unavailable");
+      }
+      return MockAPIExecutor.prototype.executeQuery.call(delegate, q, args);
+    };
+    const recorder = new RecordingApiQueryExecutor(delegate, { cassettePath });
+
+    await recorder.executeQuery(query, { id: "1" });
+    await expect(recorder.executeQuery(query, { id: "0" })).rejects.toThrow(
+      ApiQueryError,
+    );
+
+    const cassette = JSON.parse(
+      await readFile(cassettePath, "utf-8"),
+    ) as Cassette;
+    expect(cassette.interactions).toHaveLength(2);
+
+    const replay = new ReplayApiQueryExecutor({ cassettePath });
+    await expect(replay.executeQuery(query, { id: "1" })).resolves.toBe(
+      '{"product":{"name":"Drill"}}',
+    );
+    const error = (await replay
+      .executeQuery(query, { id: "0" })
+      .catch((e) => e)) as ApiQueryError;
+    expect(error).toBeInstanceOf(ApiQueryError);
+    expect(error.type).toBe(ApiQueryErrorType.HTTP);
+    expect(error.httpStatus).toBe(503);
+    expect(error.retryable).toBe(true);
+  });
+
+  test("should append to the existing cassette", async () => {
+    const delegate = MockAPIExecutor.create("{}");
+    await new RecordingApiQueryExecutor(delegate, {
+      cassettePath,
+    }).executeQuery(query, { id: "1" });
+    await new RecordingApiQueryExecutor(delegate, {
+      cassettePath,
+      mode: "append",
+    }).executeQuery(query, { id: "2" });
+
+    const cassette = JSON.parse(
+      await readFile(cassettePath, "utf-8"),
+    ) as Cassette;
+    expect(cassette.interactions.map((i) => i.variables)).toEqual([
+      { id: "1" },
+      { id: "2" },
+    ]);
+  });
+
+  test("should read the cassette again after a failed read", async () => {
+    const replay = new ReplayApiQueryExecutor({ cassettePath });
+
+    await expect(replay.executeQuery(query, { id: "1" })).rejects.toThrow(
+      "ENOENT",
+    );
+    await saveCassette(cassettePath, {
+      version: 1,
+      interactions: [{ ...query, variables: { id: "1" }, response: "{}" }],
+    });
+
+    await expect(replay.executeQuery(query, { id: "1" })).resolves.toBe("{}");
+  });
+
+  test("should throw a clear error on a cache miss", async () => {
+    const replay = new ReplayApiQueryExecutor({
+      cassette: {
+        version: 1,
+        interactions: [{ ...query, variables: { id: "1" }, response: "{}" }],
+      },
+    });
+
+    const error = await replay.executeQuery(query, { id: "2" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CassetteMissError);
+    expect(error.message).toContain('with variables: {"id":"2"}');
+  });
+
+  test("should match formatting and extra variables in loose mode", async () => {
+    const cassette: Cassette = {
+      version: 1,
+      interactions: [
+        { ...query, variables: { id: "1", limit: null }, response: "{}" },
+      ],
+    };
+    const formattedQuery = {
+      query: "query P($id: ID!) {\n  product(id: $id) {\n    name\n  }\n}",
+    };
+    const args = { id: "1", limit: 10, offset: 0 };
+
+    await expect(
+      new ReplayApiQueryExecutor({ cassette }).executeQuery(
+        formattedQuery,
+        args,
+      ),
+    ).rejects.toThrow(CassetteMissError);
+    await expect(
+      new ReplayApiQueryExecutor({ cassette, matching: "loose" }).executeQuery(
+        formattedQuery,
+        args,
+      ),
+    ).resolves.toBe("{}");
+  });
+});
@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals";
+import {
+  APIFunction,
+  ArgumentChangeType,
+  FunctionDefinition,
+  FunctionValidator,
+  noopLogger,
+  observability,
+  repairArguments,
+  ValidationResult,
+} from "../../src";
+import { MockAPIExecutor } from "../mocks/mock-api-executor";
+
+const functionDef: FunctionDefinition = {
+  name: "products",
+  parameters: {
+    type: "object",
+    properties: {
+      limit: { type: "integer" },
+      price: { type: "number" },
+      active: { type: "boolean" },
+      name: { type: "string" },
+      status: {
+        type: "string",
+        enum: ["ACTIVE", "RETIRED", "IN_STOCK"],
+      },
+      ids: { type: "array", items: { type: "integer" } },
+    },
+    required: ["limit"],
+  },
+};
+
+const validator = new FunctionValidator();
+const executor = MockAPIExecutor.create('{"ok":true}');
+executor.validate = ((
+  functionDef: FunctionDefinition,
+  args?: Record<string, unknown>,
+) => validator.validate(functionDef, args)) as MockAPIExecutor["validate"];
+
+describe("repairArguments", () => {
+  test("should coerce types", () => {
+    const { args, changes } = repairArguments(functionDef.parameters, {
+      limit: "5",
+      price: " 9.5 ",
+      active: "TRUE",
+      name: 42,
+    });
+
+    expect(args).toEqual({ limit: 5, price: 9.5, active: true, name: "42" });
+    expect(changes).toContainEqual({
+      path: "limit",
+      type: ArgumentChangeType.COERCED,
+      from: "5",
+      to: 5,
+    });
+  });
+
+  test("should leave values that can not be coerced", () => {
+    const { args, changes } = repairArguments(functionDef.parameters, {
+      limit: "2.5",
+      active: "maybe",
+    });
+
+    expect(args).toEqual({ limit: "2.5", active: "maybe" });
+    expect(changes).toEqual([]);
+  });
+
+  test("should match enum values", () => {
+    const repair = (status: string) =>
+      repairArguments(functionDef.parameters, { status }).args.status;
+
+    expect(repair("active")).toBe("ACTIVE");
+    expect(repair("in-stock")).toBe("IN_STOCK");
+    expect(repair("RETIRD")).toBe("RETIRED");
+    expect(repair("SOLD")).toBe("SOLD");
+  });
+
+  test("should wrap single values into arrays", () => {
+    const { args, changes } = repairArguments(functionDef.parameters, {
+      ids: "7",
+    });
+
+    expect(args).toEqual({ ids: [7] });
+    expect(changes.map(({ path, type }) => ({ path, type }))).toEqual([
+      { path: "ids", type: ArgumentChangeType.WRAPPED },
+      { path: "ids[0]", type: ArgumentChangeType.COERCED },
+    ]);
+  });
+
+  test("should remove unknown properties and apply defaults", () => {
+    const { args, changes } = repairArguments(
+      {
+        type: "object",
+        properties: {
+          filter: {
+            type: "object",
+            properties: {
+              sort: { type: "string", default: "name" },
+            },
+          },
+        },
+        required: [],
+      },
+      { filter: { orderBy: "price" }, extra: true },
+    );
+
+    expect(args).toEqual({ filter: { sort: "name" } });
+    expect(changes.map(({ path, type }) => ({ path, type }))).toEqual([
+      { path: "filter.orderBy", type: ArgumentChangeType.REMOVED },
+      { path: "filter.sort", type: ArgumentChangeType.DEFAULTED },
+      { path: "extra", type: ArgumentChangeType.REMOVED },
+    ]);
+  });
+
+  test("should apply only enabled repairs", () => {
+    const { args } = repairArguments(
+      functionDef.parameters,
+      { limit: "5", status: "active", extra: 1 },
+      { coerceTypes: false, removeUnknownProperties: false },
+    );
+
+    expect(args).toEqual({ limit: "5", status: "ACTIVE", extra: 1 });
+  });
+});
+
+describe("APIFunction argument repair", () => {
+  afterEach(() => {
+    APIFunction.defaultArgumentRepair = false;
+    observability.configure({ logger: noopLogger, hooks: [] });
+  });
+
+  test("should not repair arguments by default", async () => {
+    const apiFunction = new APIFunction(functionDef, { query: "" }, executor);
+
+    await expect(
+      apiFunction.validateAndExecute({ limit: "5" }),
+    ).rejects.toThrow("limit must be integer");
+  });
+
+  test("should repair arguments before validation and report changes", async () => {
+    const onArgumentsRepaired = jest.fn();
+    observability.configure({ hooks: { onArgumentsRepaired } });
+    const executeQuery = jest.spyOn(executor, "executeQuery");
+    const apiFunction = new APIFunction(functionDef, { query: "" }, executor, {
+      argumentRepair: true,
+    });
+
+    await expect(
+      apiFunction.validateAndExecute({ limit: "5", status: "retired" }),
+    ).resolves.toBe('{"ok":true}');
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      { query: "" },
+      { limit: 5, status: "RETIRED" },
+      {},
+    );
+    expect(onArgumentsRepaired).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: "products",
+        arguments: { limit: "5", status: "retired" },
+        repairedArguments: { limit: 5, status: "RETIRED" },
+      }),
+    );
+  });
+
+  test("should use the default argument repair", async () => {
+    APIFunction.defaultArgumentRepair = { coerceTypes: true };
+    const apiFunction = new APIFunction(functionDef, { query: "" }, executor);
+
+    await expect(apiFunction.validateAndExecute({ limit: "5" })).resolves.toBe(
+      '{"ok":true}',
+    );
+    expect(apiFunction.validate({ limit: "5" })).not.toBe(
+      ValidationResult.VALID,
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, jest, test } from "@jest/globals";
+import Ajv from "ajv";
+import {
+  APIFunction,
+  ErrorType,
+  FetchApiQueryExecutor,
+  FunctionDefinition,
+  FunctionValidator,
+} from "../../src";
+
+const createFunctionDef = (): FunctionDefinition => ({
+  name: "products",
+  parameters: {
+    type: "object",
+    properties: {
+      limit: { type: "integer" },
+      status: { type: "string", enum: ["ACTIVE", "RETIRED"] },
+    },
+    required: ["limit"],
+  },
+});
+
+describe("FunctionValidator", () => {
+  test("should compile the schema once per function definition", () => {
+    const ajv = new Ajv();
+    const compile = jest.spyOn(ajv, "compile");
+    const validator = new FunctionValidator(ajv);
+    const functionDef = createFunctionDef();
+
+    for (let i = 0; i < 5; i++) {
+      expect(validator.validate(functionDef, { limit: i }).isValid()).toBe(
+        true,
+      );
+    }
+    validator.validate(createFunctionDef(), { limit: 1 });
+
+    expect(compile).toHaveBeenCalledTimes(2);
+  });
+
+  test("should not keep schemas in the Ajv cache", () => {
+    const ajv = new Ajv();
+    const removeSchema = jest.spyOn(ajv, "removeSchema");
+
+    new FunctionValidator(ajv).validate(createFunctionDef());
+
+    expect(removeSchema).toHaveBeenCalledTimes(1);
+  });
+
+  test("should report invalid arguments", () => {
+    const result = new FunctionValidator().validate(createFunctionDef(), {
+      limit: "ten",
+      status: "UNKNOWN",
+    });
+
+    expect(result.errorType).toBe(ErrorType.INVALID_ARGUMENT);
+    expect(result.errorMessage).toBe("limit must be integer");
+  });
+
+  test("should validate enum values", () => {
+    const result = new FunctionValidator().validate(createFunctionDef(), {
+      limit: 1,
+      status: "UNKNOWN",
+    });
+
+    expect(result.errorMessage).toBe(
+      "status must be equal to one of the allowed values",
+    );
+  });
+
+  test("should report invalid schemas", () => {
+    const functionDef = createFunctionDef();
+    functionDef.parameters.properties.limit.type = "int" as "integer";
+
+    const result = new FunctionValidator().validate(functionDef);
+
+    expect(result.errorType).toBe(ErrorType.INVALID_JSON);
+  });
+
+  test("should be enabled in executors by default", async () => {
+    const executor = new FetchApiQueryExecutor({
+      graphqlUri: "http://localhost/graphql",
+    });
+    const apiFunction = new APIFunction(
+      createFunctionDef(),
+      { query: "query products($limit: Int!) { products(limit: $limit) }" },
+      executor,
+    );
+
+    await expect(apiFunction.validateAndExecute({})).rejects.toThrow(
+      "must have required property 'limit'",
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  APIFunction,
+  convertSchema,
+  FunctionDefinition,
+  FunctionValidator,
+  toJsonSchema,
+} from "../../src";
+import { MockAPIExecutor } from "../mocks/mock-api-executor";
+
+const functionDef: FunctionDefinition = {
+  name: "orders",
+  parameters: {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        enum: ["OPEN", "CLOSED"],
+        nullable: true,
+      },
+      since: { type: "string", format: "date-time" },
+      limit: { type: "integer", minimum: 1, maximum: 100, default: 10 },
+      filter: {
+        type: "object",
+        description: "Order filter",
+        properties: {
+          tags: { type: "array", items: { type: "string" } },
+        },
+        additionalProperties: false,
+      },
+    },
+    required: ["since"],
+  },
+};
+
+describe("toJsonSchema", () => {
+  test("should serialize parameters into standard JSON Schema", () => {
+    expect(toJsonSchema(functionDef.parameters)).toEqual({
+      type: "object",
+      properties: {
+        status: { type: ["string", "null"], enum: ["OPEN", "CLOSED", null] },
+        since: { type: "string", format: "date-time" },
+        limit: { type: "integer", default: 10, minimum: 1, maximum: 100 },
+        filter: {
+          type: "object",
+          description: "Order filter",
+          properties: {
+            tags: { type: "array", items: { type: "string" } },
+          },
+          required: [],
+          additionalProperties: false,
+        },
+      },
+      required: ["since"],
+    });
+  });
+
+  test("should emit keys in a canonical order", () => {
+    const schema = toJsonSchema({
+      maximum: 5,
+      description: "Limit",
+      type: "integer",
+      minimum: 1,
+    });
+
+    expect(JSON.stringify(schema)).toBe(
+      '{"type":"integer","description":"Limit","minimum":1,"maximum":5}',
+    );
+  });
+
+  test("should keep enum values in JSON of the function", () => {
+    const [apiFunction] = convertSchema(
+      `
+        enum Status { OPEN CLOSED }
+        type Order { id: ID! }
+        type Query { orders(status: Status): [Order] }
+      `,
+      MockAPIExecutor.create("{}"),
+    );
+
+    expect(
+      JSON.parse(JSON.stringify(apiFunction)).function.parameters.properties
+        .status.enum,
+    ).toEqual(["OPEN", "CLOSED"]);
+  });
+
+  test("should validate arguments with the serialized schema", () => {
+    const validator = new FunctionValidator();
+
+    expect(
+      validator.validate(functionDef, { since: "2024-01-01", status: null })
+        .isValid,
+    ).toBeTruthy();
+    expect(
+      validator.validate(functionDef, { since: "x", limit: 0 }).errorMessage,
+    ).toBe("limit must be >= 1");
+    expect(
+      validator.validate(functionDef, { since: "x", filter: { id: 1 } })
+        .errorMessage,
+    ).toBe("filter must NOT have additional properties");
+  });
+
+  test("should be used for APIFunction JSON", () => {
+    const apiFunction = new APIFunction(
+      functionDef,
+      { query: "" },
+      MockAPIExecutor.create("{}"),
+    );
+
+    expect(apiFunction.toJSON().function).toEqual({
+      name: "orders",
+      parameters: toJsonSchema(functionDef.parameters),
+    });
+  });
+});
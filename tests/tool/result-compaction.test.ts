@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, test } from "@jest/globals";
+import {
+  APIFunction,
+  chatPersistence,
+  compactResult,
+  createResultCompactor,
+} from "../../src";
+import { MockAPIExecutor } from "../mocks/mock-api-executor";
+
+const products = Array.from({ length: 10 }, (_, idx) => ({
+  id: idx,
+  name: `Product ${idx}`,
+  description: null,
+  tags: [],
+  owner: { name: "Acme, Inc." },
+}));
+
+describe("compactResult", () => {
+  test("should remove empty values", () => {
+    const result = compactResult(
+      JSON.stringify({
+        a: null,
+        b: "",
+        c: [],
+        d: { e: null },
+        f: 0,
+        g: [null],
+      }),
+    );
+
+    expect(JSON.parse(result)).toEqual({ c: [], d: {}, f: 0, g: [null] });
+  });
+
+  test("should truncate long arrays", () => {
+    const result = compactResult(JSON.stringify({ products }), {
+      maxArrayLength: 2,
+    });
+
+    expect(JSON.parse(result)).toEqual({
+      products: [
+        { id: 0, name: "Product 0", tags: [], owner: { name: "Acme, Inc." } },
+        { id: 1, name: "Product 1", tags: [], owner: { name: "Acme, Inc." } },
+        "... 8 more items",
+      ],
+    });
+  });
+
+  test("should shorten arrays to fit the token budget", () => {
+    const result = compactResult(JSON.stringify({ products }), {
+      maxTokens: 50,
+    });
+
+    expect(result.length).toBeLessThanOrEqual(200);
+    expect(JSON.parse(result).products.at(-1)).toMatch(/\d more items$/);
+  });
+
+  test("should cut text that does not fit the budget", () => {
+    const result = compactResult("x".repeat(1000), { maxChars: 100 });
+
+    expect(result.length).toBeLessThanOrEqual(100);
+    expect(result).toMatch(/\[truncated \d+ characters]$/);
+  });
+
+  test("should render lists of objects as CSV", () => {
+    const result = compactResult(
+      JSON.stringify({ products: products.slice(0, 3), total: 10 }),
+      { format: "csv", maxArrayLength: 2 },
+    );
+
+    expect(result).toBe(
+      "products:\n" +
+        "id,name,tags,owner.name\n" +
+        '0,Product 0,[],"Acme, Inc."\n' +
+        '1,Product 1,[],"Acme, Inc."\n' +
+        "... 1 more items\n" +
+        "total: 10",
+    );
+  });
+
+  test("should render lists of objects as Markdown", () => {
+    const result = compactResult(
+      JSON.stringify({ data: { items: [{ a: 1, b: "x|y" }, { a: 2 }] } }),
+      { format: "markdown" },
+    );
+
+    expect(result).toBe(
+      "data.items:\n| a | b |\n| --- | --- |\n| 1 | x\\|y |\n| 2 |  |",
+    );
+  });
+});
+
+describe("APIFunction result processors", () => {
+  const executor = MockAPIExecutor.create(JSON.stringify({ products }));
+  const createFunction = (resultProcessors?: []) =>
+    new APIFunction(
+      {
+        name: "products",
+        parameters: { type: "object", properties: {}, required: [] },
+      },
+      { query: "query products { products { id } }" },
+      executor,
+      { resultProcessors },
+    );
+
+  afterEach(() => {
+    APIFunction.defaultResultProcessors = [];
+  });
+
+  test("should apply default result processors", async () => {
+    APIFunction.defaultResultProcessors = [
+      createResultCompactor({ maxArrayLength: 1 }),
+    ];
+
+    const result = await createFunction().validateAndExecute();
+
+    expect(JSON.parse(result).products).toHaveLength(2);
+    await expect(createFunction([]).validateAndExecute()).resolves.toBe(
+      JSON.stringify({ products }),
+    );
+    await expect(
+      createFunction().validateAndExecute({}, { processResult: false }),
+    ).resolves.toBe(JSON.stringify({ products }));
+  });
+
+  test("should not process results read by chat persistence", async () => {
+    APIFunction.defaultResultProcessors = [() => "compacted"];
+    const messagesExecutor = MockAPIExecutor.create(
+      JSON.stringify({ messages: [{ content: "hello" }] }),
+    );
+    const getMessages = new APIFunction(
+      {
+        name: "messages",
+        parameters: { type: "object", properties: {}, required: [] },
+      },
+      { query: "query messages { messages { content } }" },
+      messagesExecutor,
+    );
+    const persistence = chatPersistence.fromTools(getMessages, getMessages);
+
+    await expect(persistence.getChatMessages({})).resolves.toEqual([
+      { content: "hello" },
+    ]);
+  });
+});
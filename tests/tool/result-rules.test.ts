@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, test } from "@jest/globals";
+import {
+  APIFunction,
+  createResultCompactor,
+  dropPaths,
+  GraphQLSchemaConverter,
+  GraphQlOperationConverter,
+  graphQlSchemaConverterConfig,
+  pickPaths,
+  StandardAPIFunctionFactory,
+  unwrapRootField,
+} from "../../src";
+import { MockAPIExecutor } from "../mocks/mock-api-executor";
+
+const response = {
+  products: [
+    { id: 1, name: "Drill", owner: { id: 7, "a/b": 1 } },
+    { id: 2, name: "Pump", owner: { id: 8, "a/b": 2 } },
+  ],
+  total: 2,
+};
+
+describe("result projection", () => {
+  test("should pick values by JSON pointers", () => {
+    expect(
+      pickPaths(response, ["/products/*/name", "/products/0/owner/a~1b"]),
+    ).toEqual({
+      products: [{ name: "Drill", owner: { "a/b": 1 } }, { name: "Pump" }],
+    });
+  });
+
+  test("should drop values by JSON pointers", () => {
+    expect(
+      dropPaths(structuredClone(response), ["/products/*/owner", "/total"]),
+    ).toEqual({
+      products: [
+        { id: 1, name: "Drill" },
+        { id: 2, name: "Pump" },
+      ],
+    });
+  });
+
+  test("should unwrap the single root field", () => {
+    expect(unwrapRootField({ products: [] })).toEqual([]);
+    expect(unwrapRootField(response)).toBe(response);
+  });
+});
+
+describe("result rules from converter config", () => {
+  const schema = `
+    type Owner { id: ID! }
+    type Product { id: ID! name: String owner: Owner }
+    type Query {
+      products: [Product]
+      product(id: ID!): Product
+    }
+  `;
+  const functionFactory = new StandardAPIFunctionFactory(
+    MockAPIExecutor.create(JSON.stringify(response)),
+  );
+
+  afterEach(() => {
+    APIFunction.defaultResultProcessors = [];
+  });
+
+  test("should apply default and per-function rules", async () => {
+    const converter = new GraphQLSchemaConverter(functionFactory, {
+      ...graphQlSchemaConverterConfig.create(),
+      resultRules: {
+        default: { drop: ["/products/*/owner"] },
+        functions: {
+          product: {
+            drop: ["/products/*/owner", "/total"],
+            unwrapRootField: true,
+            format: (result, { functionName }) => `${functionName}: ${result}`,
+          },
+        },
+      },
+    });
+    const [products, product] = converter.convertSchema(schema);
+
+    expect(JSON.parse(await products.execute())).toEqual({
+      products: [
+        { id: 1, name: "Drill" },
+        { id: 2, name: "Pump" },
+      ],
+      total: 2,
+    });
+    await expect(product.validateAndExecute({ id: "1" })).resolves.toBe(
+      'product: [{"id":1,"name":"Drill"},{"id":2,"name":"Pump"}]',
+    );
+  });
+
+  test("should combine rules with result processors of the factory", async () => {
+    const converter = new GraphQlOperationConverter(
+      new StandardAPIFunctionFactory(
+        MockAPIExecutor.create(JSON.stringify(response)),
+        { resultProcessors: [(result) => result.replace("Drill", "Saw")] },
+      ),
+      {
+        resultRules: {
+          functions: { Names: { pick: ["/products/*/name"] } },
+        },
+      },
+    );
+    const [names, ids] = converter.convertOperations(
+      "query Names { products { name } }\nquery Ids { products { id } }",
+    );
+
+    expect(JSON.parse(await names.execute())).toEqual({
+      products: [{ name: "Saw" }, { name: "Pump" }],
+    });
+    expect(JSON.parse(await ids.execute())).toEqual({
+      ...response,
+      products: [
+        { ...response.products[0], name: "Saw" },
+        response.products[1],
+      ],
+    });
+  });
+
+  test("should pick values before the default compaction", async () => {
+    APIFunction.defaultResultProcessors = [
+      createResultCompactor({ format: "csv" }),
+    ];
+    const converter = new GraphQlOperationConverter(functionFactory, {
+      resultRules: {
+        functions: { Names: { pick: ["/products/*/name"] } },
+      },
+    });
+    const [names, ids] = converter.convertOperations(
+      "query Names { products { name } }\nquery Ids { products { id } }",
+    );
+
+    await expect(names.execute()).resolves.toBe("products:\nname\nDrill\nPump");
+    await expect(ids.execute()).resolves.toBe(
+      "products:\nid,name,owner.id,owner.a/b\n1,Drill,7,1\n2,Pump,8,2\ntotal: 2",
+    );
+  });
+
+  test("should apply rules to converted operations", async () => {
+    const converter = new GraphQlOperationConverter(functionFactory, {
+      resultRules: {
+        functions: { Names: { pick: ["/products/*/name"] } },
+      },
+    });
+    const [names] = converter.convertOperations(
+      "query Names { products { name } }",
+    );
+
+    expect(JSON.parse(await names.execute())).toEqual({
+      products: [{ name: "Drill" }, { name: "Pump" }],
+    });
+  });
+});